@@ -0,0 +1,163 @@
+/**
+ * Vue devtools integration, showing every record manager and `autoState` in an
+ * inspector along with a timeline of their changes.
+ *
+ * ex.
+ * ```
+ * const app = createApp(App);
+ * if (import.meta.env.DEV) app.use(recordDevtools);
+ * ```
+ *
+ * Only instances created once the devtools are set up are shown. To show those
+ * created before, e.g. record managers created as modules are imported, call
+ * `enableInspection` from `ext/inspection` first.
+ *
+ * @pumposh
+ */
+
+import { type PluginDescriptor, setupDevtoolsPlugin } from '@vue/devtools-api';
+import type { App } from 'vue';
+
+import {
+  type Inspectable,
+  type InspectedState,
+  enableInspection,
+  getInspectables,
+  onInspectablesChange,
+} from './inspection';
+
+const INSPECTOR_ID = 'tezra-inspector';
+const TIMELINE_LAYER_ID = 'tezra-changes';
+
+/** Entries shown under an instance at most, the rest are found by filtering */
+const MAX_CHILDREN = 500;
+
+/** Delay in milliseconds over which refreshes of the inspector are batched */
+const REFRESH_DELAY = 100;
+
+/** Node of the inspector tree, an instance or one of its entries */
+interface InspectorNode {
+  inspectable: Inspectable;
+  child?: string;
+}
+
+const toInspectorState = (state: InspectedState) =>
+  Object.fromEntries(Object.entries(state).map(([section, values]) => [
+    section,
+    Object.entries(values).map(([key, value]) => ({ editable: false, key, value })),
+  ]));
+
+/**
+ * Register the inspector and timeline layer with the devtools of an app.
+ * @param app - The app the devtools are attached to.
+ */
+export const setupRecordDevtools = (app: App) => {
+  enableInspection();
+  /** Not narrowed to the exact descriptor, which is too deep to infer with Vue's app in it */
+  setupDevtoolsPlugin<PluginDescriptor>({
+    app,
+    id: 'tezra',
+    label: 'Tezra',
+    packageName: 'tezra',
+  }, (api) => {
+    /** Nodes of the tree last sent, by node id */
+    const nodes = new Map<string, InspectorNode>();
+    /** Stop listening for changes, by instance id */
+    const subscriptions = new Map<string, () => void>();
+
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    const refresh = () => {
+      if (refreshTimer) return;
+      refreshTimer = setTimeout(() => {
+        refreshTimer = null;
+        api.sendInspectorTree(INSPECTOR_ID);
+        api.sendInspectorState(INSPECTOR_ID);
+      }, REFRESH_DELAY);
+    };
+
+    api.addInspector({
+      icon: 'storage',
+      id: INSPECTOR_ID,
+      label: 'Tezra',
+      treeFilterPlaceholder: 'Filter by name or id',
+    });
+
+    api.addTimelineLayer({
+      color: 0x41b883,
+      id: TIMELINE_LAYER_ID,
+      label: 'Tezra',
+    });
+
+    api.on.getInspectorTree((payload) => {
+      if (payload.inspectorId !== INSPECTOR_ID) return;
+      const filter = payload.filter.toLowerCase();
+      nodes.clear();
+
+      payload.rootNodes = Array.from(getInspectables()).map(([id, inspectable]) => {
+        nodes.set(id, { inspectable });
+        const children = inspectable.children?.() ?? [];
+        const matching = inspectable.label.toLowerCase().includes(filter)
+          ? children
+          : children.filter((child) => child.toLowerCase().includes(filter));
+        return {
+          children: matching.slice(0, MAX_CHILDREN).map((child) => {
+            const nodeId = `${id}/${child}`;
+            nodes.set(nodeId, { child, inspectable });
+            return { id: nodeId, label: child };
+          }),
+          id,
+          label: inspectable.label,
+          tags: [
+            { backgroundColor: 0x41b883, label: inspectable.type, textColor: 0xffffff },
+            ...(inspectable.children
+              ? [{
+                backgroundColor: 0x35495e,
+                label: `${children.length}`,
+                textColor: 0xffffff,
+                tooltip: matching.length > MAX_CHILDREN
+                  ? `Showing ${MAX_CHILDREN} of ${matching.length}, filter by id to find the others`
+                  : undefined,
+              }]
+              : []),
+          ],
+        };
+      }).filter((node) => node.label.toLowerCase().includes(filter) || node.children.length > 0);
+    });
+
+    api.on.getInspectorState((payload) => {
+      if (payload.inspectorId !== INSPECTOR_ID) return;
+      const node = nodes.get(payload.nodeId);
+      if (!node) return;
+      payload.state = toInspectorState(node.inspectable.inspect(node.child));
+    });
+
+    const track = (id: string, inspectable: Inspectable | null) => {
+      subscriptions.get(id)?.();
+      subscriptions.delete(id);
+      refresh();
+      if (!inspectable?.subscribe) return;
+      subscriptions.set(id, inspectable.subscribe((change) => {
+        api.addTimelineEvent({
+          event: {
+            data: change.data,
+            subtitle: change.subtitle,
+            time: api.now(),
+            title: `${inspectable.label}: ${change.title}`,
+          },
+          layerId: TIMELINE_LAYER_ID,
+        });
+        refresh();
+      }));
+    };
+
+    getInspectables().forEach((inspectable, id) => track(id, inspectable));
+    onInspectablesChange(track);
+  });
+};
+
+/**
+ * Vue plugin registering the devtools integration, see `setupRecordDevtools`.
+ */
+export const recordDevtools = {
+  install: (app: App) => setupRecordDevtools(app),
+};
@@ -1,5 +1,14 @@
 import { isNullish } from './index';
 
+/**
+ * How arrays nested within objects are diffed:
+ * - `index`: item by item at the same index, so inserting an item at the front
+ *   reports every item after it as changed
+ * - `items`: as a whole, reporting the items inserted, removed, moved and
+ *   updated as `changes`, see `diffArrays`
+ */
+export type ArrayDiffMode = 'index' | 'items';
+
 /**
  * Diff two objects deeply, returning a list of all the differences.
  *
@@ -7,6 +16,7 @@ import { isNullish } from './index';
  * @param obj2 - The second object to compare.
  * @param path - The current path of the comparison.
  * @param acc - The accumulator for the differences.
+ * @param arrays - How nested arrays are diffed.
  * @returns The differences between the two objects.
  */
 export const diffObjectsDeep = (
@@ -15,6 +25,7 @@ export const diffObjectsDeep = (
   path: string[] = [],
   allowNullish = false,
   acc: Record<string, any> = {},
+  arrays: ArrayDiffMode = 'index',
 ): Record<string, any> => {
   const prev = _prev ?? {};
   const next = _next ?? {};
@@ -33,14 +44,20 @@ export const diffObjectsDeep = (
     const value1 = validate(prev[key]);
     const value2 = validate(next[key]);
 
-    if (
+    if (arrays === 'items' && Array.isArray(value1) && Array.isArray(value2)) {
+      const changes = diffArrays(value1, value2);
+      if (changes.length > 0) {
+        result[newPath.join('/')] = { changes, next: value2, prev: value1 };
+        acc[newPath.join('/')] = { changes, next: value2, prev: value1 };
+      }
+    } else if (
       typeof value1 === 'object'
       && value1 !== null
       && typeof value2 === 'object'
       && value2 !== null
     ) {
       // Recursive diff for nested objects
-      const nestedDiff = diffObjectsDeep(value1, value2, newPath, allowNullish, acc);
+      const nestedDiff = diffObjectsDeep(value1, value2, newPath, allowNullish, acc, arrays);
       if (Object.keys(nestedDiff).length > 0) {
         // Only add if there are differences
         result[newPath.join('/')] = nestedDiff;
@@ -88,3 +105,609 @@ export const isEqual = <T, S>(a: T, b: S) => {
   if (typeof a === typeof b) return (a === b as any);
   return false;
 };
+
+/** An operation of a JSON Patch, see RFC 6902 */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export type JsonPatch = JsonPatchOperation[];
+
+export interface CreatePatchOptions {
+  /**
+   * Precede every operation removing or replacing a value with a `test` of that
+   * value, so that the patch fails rather than overwriting concurrent changes.
+   */
+  test?: boolean;
+}
+
+export class JsonPatchError extends Error {
+  constructor(
+    /** The operation which failed */
+    readonly operation: JsonPatchOperation,
+    /** The index of the operation within the patch */
+    readonly index: number,
+    reason: string,
+  ) {
+    super(`Unable to apply operation ${index}, ${operation.op} ${operation.path}: ${reason}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+  typeof value === 'object' && value !== null;
+
+const escapeToken = (token: string) => token.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const unescapeToken = (token: string) => token.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/**
+ * Split a JSON Pointer into the keys it refers to.
+ *
+ * @param pointer - The JSON Pointer, e.g. `/items/0/name`.
+ * @returns The keys, e.g. `['items', '0', 'name']`, or none for the whole document.
+ */
+export const parseJsonPointer = (pointer: string): string[] => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer ${pointer}`);
+  return pointer.slice(1).split('/').map(unescapeToken);
+};
+
+/**
+ * Convert a path separated by `/`, as taken by `setNestedChildOnRecord` and
+ * `setChildOf`, or a list of keys to a JSON Pointer.
+ *
+ * @param path - The path, e.g. `items/0/name`.
+ * @returns The JSON Pointer, e.g. `/items/0/name`.
+ */
+export const toJsonPointer = (path: string | string[]) =>
+  (typeof path === 'string' ? path.split('/') : path)
+    .map((token) => `/${escapeToken(token)}`)
+    .join('');
+
+/**
+ * Convert a JSON Pointer to a path separated by `/`, as taken by
+ * `setNestedChildOnRecord` and `setChildOf`.
+ *
+ * @param pointer - The JSON Pointer, e.g. `/items/0/name`.
+ * @returns The path, e.g. `items/0/name`.
+ */
+export const fromJsonPointer = (pointer: string) => parseJsonPointer(pointer).join('/');
+
+/** Whether two JSON values are equal, treating keys of undefined as absent */
+const isJsonEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isJsonEqual(v, b[i]));
+  }
+  const keysOf = (obj: Record<string, unknown>) => Object.keys(obj).filter((k) => obj[k] !== undefined);
+  const aKeys = keysOf(a as Record<string, unknown>);
+  const bKeys = keysOf(b as Record<string, unknown>);
+  return aKeys.length === bKeys.length && aKeys.every((k) => isJsonEqual(
+    (a as Record<string, unknown>)[k],
+    (b as Record<string, unknown>)[k],
+  ));
+};
+
+/** Deep copy a JSON value, so that patches do not share objects with documents */
+const cloneJson = <V>(value: V): V => {
+  if (Array.isArray(value)) return value.map(cloneJson) as V;
+  if (!isContainer(value) || value instanceof Date) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => [k, cloneJson(v)]),
+  ) as V;
+};
+
+/** Add the operations changing `prev` into `next` to a patch */
+const diffInto = (
+  prev: unknown,
+  next: unknown,
+  tokens: string[],
+  patch: JsonPatch,
+  options: CreatePatchOptions,
+) => {
+  if (isJsonEqual(prev, next)) return;
+  const path = toJsonPointer(tokens);
+  const test = (value: unknown) => {
+    if (options.test) patch.push({ op: 'test', path, value: cloneJson(value) });
+  };
+
+  if (!isContainer(prev) || !isContainer(next) || Array.isArray(prev) !== Array.isArray(next)) {
+    test(prev);
+    patch.push({ op: 'replace', path, value: cloneJson(next) });
+    return;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const common = Math.min(prev.length, next.length);
+    for (let i = 0; i < common; i += 1) diffInto(prev[i], next[i], [...tokens, `${i}`], patch, options);
+    for (let i = common; i < next.length; i += 1) {
+      patch.push({ op: 'add', path: toJsonPointer([...tokens, `${i}`]), value: cloneJson(next[i]) });
+    }
+    /** Items are removed from the end, so that the indices of the others hold */
+    for (let i = prev.length - 1; i >= common; i -= 1) {
+      const itemPath = toJsonPointer([...tokens, `${i}`]);
+      if (options.test) patch.push({ op: 'test', path: itemPath, value: cloneJson(prev[i]) });
+      patch.push({ op: 'remove', path: itemPath });
+    }
+    return;
+  }
+
+  const prevObj = prev as Record<string, unknown>;
+  const nextObj = next as Record<string, unknown>;
+  const has = (obj: Record<string, unknown>, key: string) => obj[key] !== undefined;
+  const removed = Object.keys(prevObj).filter((k) => has(prevObj, k) && !has(nextObj, k));
+  const added = Object.keys(nextObj).filter((k) => has(nextObj, k) && !has(prevObj, k));
+
+  /** Values which were only renamed are moved rather than removed and added again */
+  added.slice().forEach((key) => {
+    const from = removed.findIndex((k) => isJsonEqual(prevObj[k], nextObj[key]));
+    if (from < 0) return;
+    patch.push({
+      from: toJsonPointer([...tokens, removed[from]!]),
+      op: 'move',
+      path: toJsonPointer([...tokens, key]),
+    });
+    removed.splice(from, 1);
+    added.splice(added.indexOf(key), 1);
+  });
+
+  removed.forEach((key) => {
+    const keyPath = toJsonPointer([...tokens, key]);
+    if (options.test) patch.push({ op: 'test', path: keyPath, value: cloneJson(prevObj[key]) });
+    patch.push({ op: 'remove', path: keyPath });
+  });
+  Object.keys(nextObj)
+    .filter((k) => has(prevObj, k) && has(nextObj, k))
+    .forEach((key) => diffInto(prevObj[key], nextObj[key], [...tokens, key], patch, options));
+  added.forEach((key) => {
+    patch.push({ op: 'add', path: toJsonPointer([...tokens, key]), value: cloneJson(nextObj[key]) });
+  });
+};
+
+/**
+ * Create a JSON Patch, see RFC 6902, changing one value into another. Values
+ * which are only renamed within an object are moved.
+ *
+ * @param prev - The value the patch applies to.
+ * @param next - The value the patch results in.
+ * @param options - Options of the patch.
+ * @returns The patch, empty if the values are equal.
+ */
+export const createPatch = (
+  prev: unknown,
+  next: unknown,
+  options: CreatePatchOptions = {},
+): JsonPatch => {
+  const patch: JsonPatch = [];
+  diffInto(prev, next, [], patch, options);
+  return patch;
+};
+
+/** Parse the index of an array item, `-` referring to the end of the array when adding */
+const toIndex = (array: unknown[], token: string, isAdding: boolean) => {
+  if (isAdding && token === '-') return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) return -1;
+  const index = Number(token);
+  return index < array.length || (isAdding && index === array.length) ? index : -1;
+};
+
+/** Get the value a path refers to, or undefined if it does not exist */
+const getAt = (document: unknown, tokens: string[]): unknown => tokens.reduce<unknown>(
+  (acc, token) => {
+    if (Array.isArray(acc)) {
+      const index = toIndex(acc, token, false);
+      return index < 0 ? undefined : acc[index];
+    }
+    return isContainer(acc) && Object.prototype.hasOwnProperty.call(acc, token)
+      ? (acc as Record<string, unknown>)[token]
+      : undefined;
+  },
+  document,
+);
+
+/**
+ * Replace the container holding the value a path refers to with an updated
+ * copy, copying every container along the way.
+ */
+const updateAt = (
+  document: unknown,
+  tokens: string[],
+  update: (container: Container, token: string) => Container,
+  fail: (reason: string) => never,
+): unknown => {
+  const [token, ...rest] = tokens as [string, ...string[]];
+  if (!isContainer(document)) fail(`${token} is not within an object or array`);
+  const container = document as Container;
+  if (rest.length === 0) return update(container, token);
+
+  const child = getAt(container, [token]);
+  if (child === undefined) fail(`${token} does not exist`);
+  const updated = updateAt(child, rest, update, fail);
+  if (Array.isArray(container)) {
+    const copy = [...container];
+    copy[toIndex(container, token, false)] = updated;
+    return copy;
+  }
+  return { ...container, [token]: updated };
+};
+
+const addAt = (document: unknown, tokens: string[], value: unknown, fail: (reason: string) => never) => {
+  if (tokens.length === 0) return value;
+  return updateAt(document, tokens, (container, token) => {
+    if (!Array.isArray(container)) return { ...container, [token]: value };
+    const index = toIndex(container, token, true);
+    if (index < 0) fail(`${token} is not a valid index`);
+    const copy = [...container];
+    copy.splice(index, 0, value);
+    return copy;
+  }, fail);
+};
+
+const removeAt = (document: unknown, tokens: string[], fail: (reason: string) => never) => {
+  if (tokens.length === 0) fail('the whole document cannot be removed');
+  return updateAt(document, tokens, (container, token) => {
+    if (getAt(container, [token]) === undefined) fail(`${token} does not exist`);
+    if (Array.isArray(container)) {
+      const copy = [...container];
+      copy.splice(toIndex(container, token, false), 1);
+      return copy;
+    }
+    const { [token]: _removed, ...rest } = container;
+    return rest;
+  }, fail);
+};
+
+const replaceAt = (document: unknown, tokens: string[], value: unknown, fail: (reason: string) => never) => {
+  if (tokens.length === 0) return value;
+  return updateAt(document, tokens, (container, token) => {
+    if (getAt(container, [token]) === undefined) fail(`${token} does not exist`);
+    if (!Array.isArray(container)) return { ...container, [token]: value };
+    const copy = [...container];
+    copy[toIndex(container, token, false)] = value;
+    return copy;
+  }, fail);
+};
+
+/** Apply a single operation of a patch, without changing the document */
+const applyOperation = (document: unknown, operation: JsonPatchOperation, index: number): unknown => {
+  const fail = (reason: string): never => {
+    throw new JsonPatchError(operation, index, reason);
+  };
+  const pointer = (path: string) => {
+    try {
+      return parseJsonPointer(path);
+    } catch (e) {
+      return fail((e as Error).message);
+    }
+  };
+  const tokens = pointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return addAt(document, tokens, cloneJson(operation.value), fail);
+    case 'remove':
+      return removeAt(document, tokens, fail);
+    case 'replace':
+      return replaceAt(document, tokens, cloneJson(operation.value), fail);
+    case 'move': {
+      const from = pointer(operation.from);
+      const value = getAt(document, from);
+      if (value === undefined) fail(`${operation.from} does not exist`);
+      if (operation.from === operation.path) return document;
+      if (operation.path.startsWith(`${operation.from}/`)) fail('a value cannot be moved into itself');
+      return addAt(removeAt(document, from, fail), tokens, value, fail);
+    }
+    case 'copy': {
+      const value = getAt(document, pointer(operation.from));
+      if (value === undefined) fail(`${operation.from} does not exist`);
+      return addAt(document, tokens, cloneJson(value), fail);
+    }
+    case 'test':
+      if (!isJsonEqual(getAt(document, tokens), operation.value)) fail('the value does not match');
+      return document;
+    default:
+      return fail(`${(operation as { op: string }).op} is not a valid operation`);
+  }
+};
+
+/**
+ * Apply a JSON Patch, see RFC 6902, to a document without changing it. Objects
+ * and arrays which are left as they are remain shared with the document.
+ *
+ * @param document - The document to apply the patch to.
+ * @param patch - The patch to apply.
+ * @returns The patched document.
+ * @throws {JsonPatchError} If an operation fails, e.g. a `test`, in which case none applies.
+ */
+export const applyPatch = <T>(document: T, patch: JsonPatch): T => patch.reduce<unknown>(
+  (acc, operation, index) => applyOperation(acc, operation, index),
+  document,
+) as T;
+
+/**
+ * Invert a JSON Patch, such that applying the inverse to the patched document
+ * restores the document the patch was applied to.
+ *
+ * @param patch - The patch to invert.
+ * @param document - The document the patch applies to, which removed and replaced values are taken from.
+ * @returns The inverse patch.
+ * @throws {JsonPatchError} If the patch does not apply to the document.
+ */
+export const invertPatch = (patch: JsonPatch, document: unknown): JsonPatch => {
+  const inverses: JsonPatch[] = [];
+
+  /** Resolve `-` to the index a value is appended at */
+  const resolve = (current: unknown, path: string) => {
+    const tokens = parseJsonPointer(path);
+    const parent = getAt(current, tokens.slice(0, -1));
+    return Array.isArray(parent) && tokens[tokens.length - 1] === '-'
+      ? toJsonPointer([...tokens.slice(0, -1), `${parent.length}`])
+      : path;
+  };
+
+  /** Undo adding a value, restoring the value it replaced within an object if any */
+  const undoAdd = (current: unknown, path: string): JsonPatch => {
+    const tokens = parseJsonPointer(path);
+    const previous = getAt(current, tokens);
+    const parent = getAt(current, tokens.slice(0, -1));
+    if (tokens.length === 0 || (!Array.isArray(parent) && previous !== undefined)) {
+      return [{ op: 'replace', path, value: cloneJson(previous) }];
+    }
+    return [{ op: 'remove', path }];
+  };
+
+  patch.reduce<unknown>((current, operation, index) => {
+    const next = applyOperation(current, operation, index);
+    switch (operation.op) {
+      case 'add':
+      case 'copy':
+        inverses.push(undoAdd(current, resolve(current, operation.path)));
+        break;
+      case 'remove':
+      case 'replace':
+        inverses.push([{
+          op: operation.op === 'remove' ? 'add' : 'replace',
+          path: operation.path,
+          value: cloneJson(getAt(current, parseJsonPointer(operation.path))),
+        }]);
+        break;
+      case 'move': {
+        if (operation.from === operation.path) break;
+        if (operation.path === '') {
+          inverses.push([{ op: 'replace', path: '', value: cloneJson(current) }]);
+          break;
+        }
+        const removed = applyOperation(current, { op: 'remove', path: operation.from }, index);
+        const path = resolve(removed, operation.path);
+        const tokens = parseJsonPointer(path);
+        /** Moving a value to a key of an object overwrites the value held there */
+        const overwritten = Array.isArray(getAt(removed, tokens.slice(0, -1)))
+          ? undefined
+          : getAt(removed, tokens);
+        inverses.push([
+          { from: path, op: 'move', path: operation.from },
+          ...(overwritten === undefined ? [] : [{ op: 'add' as const, path, value: cloneJson(overwritten) }]),
+        ]);
+        break;
+      }
+      case 'test':
+        inverses.push([operation]);
+        break;
+      default:
+        break;
+    }
+    return next;
+  }, document);
+
+  return inverses.reverse().flat();
+};
+
+/**
+ * Change to an array item. Indices of removed items are within the previous
+ * array, indices of inserted items within the next, and moved and updated items
+ * have both.
+ */
+export type ArrayChange<V = unknown> =
+  | { type: 'insert'; index: number; value: V }
+  | { type: 'remove'; index: number; value: V }
+  | { type: 'move'; from: number; to: number; value: V }
+  | { type: 'update'; from: number; to: number; prev: V; next: V };
+
+export interface DiffArraysOptions<V> {
+  /**
+   * Key identifying an item across both arrays. Defaults to `id` when every item
+   * is an object with an id, otherwise items are matched by value.
+   */
+  key?: (item: V) => unknown;
+}
+
+/** Largest table of the longest common subsequence computed, beyond which items are not matched */
+const MAX_LCS_CELLS = 1_000_000;
+
+const hasId = (item: unknown) => isContainer(item)
+  && !Array.isArray(item)
+  && typeof (item as { id?: unknown }).id === 'string';
+
+const idOf = (item: unknown) => (item as { id: string }).id;
+
+const isUnique = <V>(items: V[], key: (item: V) => unknown) => new Set(items.map(key)).size === items.length;
+
+/**
+ * Find the longest common subsequence of two lists.
+ * @returns The pairs of indices of matching items, in order.
+ */
+const longestCommonSubsequence = <V>(
+  prev: V[],
+  next: V[],
+  isMatch: (a: V, b: V) => boolean,
+): [number, number][] => {
+  /** Common prefixes and suffixes are matched without the table */
+  let start = 0;
+  while (start < prev.length && start < next.length && isMatch(prev[start]!, next[start]!)) start += 1;
+  let end = 0;
+  while (
+    end < prev.length - start
+    && end < next.length - start
+    && isMatch(prev[prev.length - 1 - end]!, next[next.length - 1 - end]!)
+  ) end += 1;
+
+  const prefix = Array.from({ length: start }, (_, i): [number, number] => [i, i]);
+  const suffix = Array.from({ length: end }, (_, i): [number, number] => [
+    prev.length - end + i,
+    next.length - end + i,
+  ]);
+  const rows = prev.length - start - end;
+  const columns = next.length - start - end;
+  if (rows === 0 || columns === 0 || rows * columns > MAX_LCS_CELLS) return [...prefix, ...suffix];
+
+  /** Length of the subsequence common to the items of each list from each index on */
+  const lengths = new Uint32Array((rows + 1) * (columns + 1));
+  const at = (i: number, j: number) => i * (columns + 1) + j;
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = columns - 1; j >= 0; j -= 1) {
+      lengths[at(i, j)] = isMatch(prev[start + i]!, next[start + j]!)
+        ? lengths[at(i + 1, j + 1)]! + 1
+        : Math.max(lengths[at(i + 1, j)]!, lengths[at(i, j + 1)]!);
+    }
+  }
+
+  const middle: [number, number][] = [];
+  for (let i = 0, j = 0; i < rows && j < columns;) {
+    if (isMatch(prev[start + i]!, next[start + j]!)) {
+      middle.push([start + i, start + j]);
+      i += 1;
+      j += 1;
+    } else if (lengths[at(i + 1, j)]! >= lengths[at(i, j + 1)]!) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return [...prefix, ...middle, ...suffix];
+};
+
+/**
+ * Find the longest increasing subsequence of a list of numbers.
+ * @returns The indices of its items, in order.
+ */
+const longestIncreasingSubsequence = (sequence: number[]): number[] => {
+  /** Index of the last item of the smallest ending subsequence of each length */
+  const tails: number[] = [];
+  const previous = new Array<number>(sequence.length);
+  sequence.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (sequence[tails[mid]!]! < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1]! : -1;
+    tails[low] = i;
+  });
+
+  const result: number[] = [];
+  for (let i = tails[tails.length - 1] ?? -1; i >= 0; i = previous[i]!) result.push(i);
+  return result.reverse();
+};
+
+/**
+ * Items matched by unique key, stable if within the longest increasing
+ * subsequence of their indices in the next array and moved otherwise.
+ */
+const diffKeyedArrays = <V>(prev: V[], next: V[], key: (item: V) => unknown): ArrayChange<V>[] => {
+  const nextIndices = new Map(next.map((item, i) => [key(item), i]));
+  const prevIndices = new Map(prev.map((item, i) => [key(item), i]));
+  const matched = prev
+    .map((item, from) => [from, nextIndices.get(key(item))] as const)
+    .filter((pair): pair is readonly [number, number] => pair[1] !== undefined);
+  const stable = new Set(
+    longestIncreasingSubsequence(matched.map(([, to]) => to)).map((i) => matched[i]![0]),
+  );
+
+  const changes: ArrayChange<V>[] = [];
+  prev.forEach((item, from) => {
+    const to = nextIndices.get(key(item));
+    if (to === undefined) {
+      changes.push({ index: from, type: 'remove', value: item });
+      return;
+    }
+    if (!stable.has(from)) changes.push({ from, to, type: 'move', value: next[to]! });
+    if (!isJsonEqual(item, next[to])) changes.push({ from, next: next[to]!, prev: item, to, type: 'update' });
+  });
+  next.forEach((item, index) => {
+    if (!prevIndices.has(key(item))) changes.push({ index, type: 'insert', value: item });
+  });
+  return changes;
+};
+
+/** Items matched by value, where removed items inserted elsewhere are moved */
+const diffUnkeyedArrays = <V>(prev: V[], next: V[]): ArrayChange<V>[] => {
+  const common = longestCommonSubsequence(prev, next, isJsonEqual);
+  const matchedPrev = new Set(common.map(([from]) => from));
+  const matchedNext = new Set(common.map(([, to]) => to));
+  const removed = prev.map((_, i) => i).filter((i) => !matchedPrev.has(i));
+  const inserted = next.map((_, i) => i).filter((i) => !matchedNext.has(i));
+
+  const changes: ArrayChange<V>[] = [];
+  const canPair = removed.length * inserted.length <= MAX_LCS_CELLS;
+  removed.forEach((from) => {
+    const paired = canPair ? inserted.findIndex((to) => isJsonEqual(prev[from], next[to])) : -1;
+    if (paired < 0) {
+      changes.push({ index: from, type: 'remove', value: prev[from]! });
+      return;
+    }
+    changes.push({ from, to: inserted[paired]!, type: 'move', value: prev[from]! });
+    inserted.splice(paired, 1);
+  });
+  inserted.forEach((index) => changes.push({ index, type: 'insert', value: next[index]! }));
+  return changes;
+};
+
+/**
+ * Diff two arrays item by item, reporting the items inserted, removed and moved
+ * rather than the indices which changed. Items are matched by key when a key is
+ * given, when every item has an id or when every item is a primitive, as long as
+ * keys are unique within each array. Keyed items whose value changed are also
+ * reported as updated. Otherwise items are matched by value.
+ *
+ * ex.
+ * ```
+ * diffArrays(['a', 'b', 'c'], ['c', 'a', 'b']);
+ * // [{ type: 'move', from: 2, to: 0, value: 'c' }]
+ * ```
+ *
+ * @param prev - The previous array.
+ * @param next - The next array.
+ * @param options - How items are matched.
+ * @returns The changes, empty if the arrays are equal.
+ */
+export const diffArrays = <V>(
+  prev: V[],
+  next: V[],
+  options: DiffArraysOptions<V> = {},
+): ArrayChange<V>[] => {
+  if (options.key) return diffKeyedArrays(prev, next, options.key);
+
+  /** Ids, or primitive items themselves, are only used as keys if unique within each array */
+  const items = [...prev, ...next];
+  const key = items.every(hasId) ? idOf
+    : items.every((item) => !isContainer(item)) ? (item: V) => item
+      : null;
+  return key && isUnique(prev, key) && isUnique(next, key)
+    ? diffKeyedArrays(prev, next, key)
+    : diffUnkeyedArrays(prev, next);
+};
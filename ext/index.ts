@@ -30,6 +30,13 @@ export const isNullish = (
   value: any,
 ): value is null | undefined => value === null || value === undefined;
 
+/**
+ * Check if a value is a promise or promise-like object.
+ */
+export const isPromiseLike = <T = unknown>(
+  value: any,
+): value is PromiseLike<T> => typeof value?.then === 'function';
+
 /**
  * Determine whether a value is not nullish
  *
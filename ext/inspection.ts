@@ -0,0 +1,88 @@
+/**
+ * Registry of the stateful instances created by this library, e.g. record managers,
+ * so that they can be inspected by developer tools. See `ext/devtools` for the
+ * Vue devtools integration.
+ *
+ * Instances are only registered once inspection is enabled, by setting up the
+ * devtools or with `enableInspection`, so that they are not kept alive otherwise.
+ *
+ * @pumposh
+ */
+
+/** Values shown for an instance, or for one of its entries, grouped in sections */
+export type InspectedState = Record<string, Record<string, unknown>>;
+
+/** Change made to an inspected instance, shown on the timeline */
+export interface InspectedChange {
+  title: string;
+  subtitle?: string;
+  data: Record<string, unknown>;
+}
+
+export interface Inspectable {
+  /** Kind of instance, e.g. `recordManager` */
+  type: string;
+  /** Name of the instance, e.g. the context of a record manager */
+  label: string;
+  /** Ids of the entries of the instance which are inspected on their own, e.g. records */
+  children?: () => string[];
+  /**
+   * Get the state of the instance.
+   * @param child - The id of an entry to get the state of, rather than the instance.
+   */
+  inspect: (child?: string) => InspectedState;
+  /**
+   * Listen for changes to the instance.
+   * @returns A function to stop listening.
+   */
+  subscribe?: (listener: (change: InspectedChange) => void) => () => void;
+}
+
+type RegistryListener = (id: string, inspectable: Inspectable | null) => void;
+
+/** Registered instances by unique id */
+const inspectables = new Map<string, Inspectable>();
+const listeners = new Set<RegistryListener>();
+let nextId = 0;
+let isEnabled = false;
+
+/**
+ * Start registering instances to be inspected. Instances created before are not
+ * inspected, so enable inspection before creating any to inspect them all, e.g.
+ * at the start of the entry of a development build.
+ */
+export const enableInspection = () => {
+  isEnabled = true;
+};
+
+/**
+ * Register an instance to be inspected, if inspection is enabled.
+ * @returns A function to unregister the instance, e.g. once disposed.
+ */
+export const registerInspectable = (inspectable: Inspectable) => {
+  if (!isEnabled) return () => {};
+  const id = `${inspectable.type}:${nextId++}`;
+  inspectables.set(id, inspectable);
+  listeners.forEach((listener) => listener(id, inspectable));
+  return () => {
+    if (!inspectables.delete(id)) return;
+    listeners.forEach((listener) => listener(id, null));
+  };
+};
+
+/**
+ * Get every registered instance, by unique id.
+ */
+export const getInspectables = (): ReadonlyMap<string, Inspectable> => inspectables;
+
+/**
+ * Listen for instances being registered, or unregistered in which case the
+ * listener receives null.
+ * @returns A function to stop listening.
+ */
+export const onInspectablesChange = (listener: RegistryListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -1,4 +1,20 @@
 
+/**
+ * Get a nested value of a record, handling both object properties and array indices.
+ *
+ * @param obj - The object to get the value from.
+ * @param path - The path to the value to get separated by `/`.
+ * @returns The value, or undefined if the path does not exist.
+ */
+export const getNestedChildOnRecord = (obj: unknown, path: string): unknown => path
+  .split('/')
+  .reduce<unknown>(
+    (acc, key) => (typeof acc === 'object' && acc !== null
+      ? (acc as Record<string, unknown>)[key]
+      : undefined),
+    obj,
+  );
+
 /**
  * Set a nested value on a record, handling both object properties and array indices.
  *
@@ -46,3 +62,44 @@ export const setNestedChildOnRecord = <T extends object>(
     ),
   };
 };
+
+/**
+ * Remove a nested value from a record, handling both object properties and
+ * array indices. Array items are spliced out rather than left as holes.
+ *
+ * @param obj - The object to remove the value from.
+ * @param path - The path to the value to remove separated by `/`.
+ * @returns The updated object.
+ */
+export const unsetNestedChildOnRecord = <T extends object>(
+  obj: T,
+  path: string,
+): T => {
+  const keys = path.split('/');
+  const key = keys[0] ?? '';
+  const restPath = keys.slice(1).join('/');
+
+  if (Array.isArray(obj)) {
+    const index = parseInt(key, 10);
+    const newArray = [...obj];
+    if (keys.length === 1) {
+      newArray.splice(index, 1);
+    } else if (typeof newArray[index] === 'object' && newArray[index] !== null) {
+      newArray[index] = unsetNestedChildOnRecord(newArray[index], restPath);
+    }
+    return newArray as T;
+  }
+
+  if (keys.length === 1) {
+    const { [key as keyof T]: _removed, ...rest } = obj;
+    return rest as T;
+  }
+
+  const currentValue = obj[key as keyof T];
+  if (typeof currentValue !== 'object' || currentValue === null) return obj;
+
+  return {
+    ...obj,
+    [key as keyof T]: unsetNestedChildOnRecord(currentValue, restPath),
+  };
+};
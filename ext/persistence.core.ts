@@ -0,0 +1,502 @@
+/**
+ * This is a persistence system to support reactive elements and synchronize them with local storage,
+ * or any other storage backend provided as a `StorageAdapter`. It runs on any reactivity system, see
+ * `createPersistence`, and `ls` in `./persistence` for Vue.
+ *
+ * @pumposh
+ */
+
+import {
+  isNullish,
+  isPromiseLike,
+  nullishFilter,
+  objectFilter,
+} from './index';
+import type { ReactiveRef, ReactivityAdapter } from './reactivity';
+import { deserialize, serialize } from './serializers';
+import { type StorageAdapter, localStorageAdapter } from './storage';
+import { type SyncOptions, createTabSync } from './tabSync';
+import { type StorageTransform, withTransforms } from './transforms';
+
+const KEY_PREFIX = 'persist--';
+
+function getKey(key: string) {
+  return `${KEY_PREFIX}${key}`;
+}
+
+export const forceParse = (data: string): unknown => {
+  try {
+    return deserialize(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * Upgrade functions keyed by the version they upgrade a persisted value to.
+ * Each receives the value as of the previous version.
+ */
+export type Migrations = Record<number, (value: any) => unknown>;
+
+interface Versioned {
+  dataType: 'Versioned';
+  version: number;
+  value: unknown;
+}
+
+const isVersioned = (value: unknown): value is Versioned =>
+  typeof value === 'object' && value !== null && (value as Versioned).dataType === 'Versioned';
+
+export interface PersistOptions {
+  /** Whether to include nullish values of a reactive object in storage */
+  includeNullish?: boolean;
+  /** Storage backend to persist to, defaults to local storage */
+  storage?: StorageAdapter;
+  /**
+   * Transforms applied to the serialized value, in order on write and in reverse
+   * on read, e.g. compression and encryption
+   */
+  transforms?: StorageTransform[];
+  /** Merge changes made to a reactive object in other tabs, keyed by top-level key */
+  sync?: boolean | SyncOptions;
+  /** Version of the value's shape, stored alongside the value when set */
+  version?: number;
+  /** Migrations run on load to upgrade values persisted with an older version */
+  migrations?: Migrations;
+  /**
+   * Maximum size in bytes of the persisted value as stored, after any transforms,
+   * beyond which it is treated as over quota
+   */
+  maxSize?: number;
+  /**
+   * Free up space when the value is over quota, e.g. by removing entries from it.
+   * Return true if anything was freed to retry persisting the value, or a promise
+   * of it to retry once space has been freed.
+   */
+  evict?: (context: EvictionContext) => boolean | PromiseLike<boolean>;
+  /** Called when the value cannot be persisted for lack of space, even after eviction */
+  onQuotaExceeded?: (error: StorageQuotaError) => void;
+  /** Called whenever the value has been written to storage */
+  onPersisted?: () => void;
+}
+
+export interface EvictionContext {
+  /** The storage key of the value */
+  key: string;
+  /** The size in bytes of the value which failed to persist */
+  size: number;
+  /**
+   * The number of bytes to free for the value to fit, if known, i.e. when it is
+   * over `maxSize` rather than rejected by the storage backend
+   */
+  excess?: number;
+  /** The number of evictions which have already been attempted for this write */
+  attempt: number;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(
+    /** The storage key of the value */
+    readonly key: string,
+    /** The size in bytes of the value which failed to persist */
+    readonly size: number,
+    /** The error thrown by the storage backend, if any */
+    readonly reason?: unknown,
+  ) {
+    super(`Unable to persist ${key}, ${size} bytes exceed the available storage`);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/** Evictions attempted for a single write before giving up */
+const MAX_EVICTION_ATTEMPTS = 20;
+
+const isQuotaError = (error: unknown) => error instanceof StorageQuotaError
+  || ['QuotaExceededError', 'NS_ERROR_DOM_QUOTA_REACHED'].includes((error as Error)?.name);
+
+/** Estimated size in bytes of a persisted string, stored as UTF-16 by web storage */
+const measure = (serialized: string) => serialized.length * 2;
+
+/** Size of the last value persisted for each storage key */
+const sizes = new Map<string, number>();
+
+/** Maximum size of the value persisted to each storage key, see `PersistOptions.maxSize` */
+const maxSizes = new Map<string, number>();
+
+/**
+ * Wrap a storage adapter to measure values as they are written to it, after any
+ * transforms. Values over their maximum size are rejected, and quota errors of
+ * the backend are reported along with the size of the value.
+ */
+const withMeasurement = (storage: StorageAdapter): StorageAdapter => ({
+  get: (key) => storage.get(key),
+  set: (key, value) => {
+    const size = measure(value);
+    const maxSize = maxSizes.get(key);
+    if (!isNullish(maxSize) && size > maxSize) throw new StorageQuotaError(key, size);
+    const onRejected = (error: unknown): never => {
+      throw isQuotaError(error) && !(error instanceof StorageQuotaError)
+        ? new StorageQuotaError(key, size, error)
+        : error;
+    };
+    let result: ReturnType<StorageAdapter['set']>;
+    try {
+      result = storage.set(key, value);
+    } catch (e) {
+      return onRejected(e);
+    }
+    if (isPromiseLike(result)) {
+      return Promise.resolve(result).then(() => {
+        sizes.set(key, size);
+      }, onRejected);
+    }
+    sizes.set(key, size);
+    return result;
+  },
+  remove: (key) => storage.remove(key),
+  keys: () => storage.keys(),
+});
+
+/**
+ * Upgrade a parsed value to the current version by running every migration
+ * between the persisted version and the current one, in order. Values persisted
+ * without a version are treated as version 0.
+ * @returns The upgraded value, or null if it cannot be migrated and should be dropped.
+ */
+export const migrate = (
+  parsed: unknown,
+  { version, migrations = {} }: Pick<PersistOptions, 'version' | 'migrations'>,
+): { value: unknown } | null => {
+  let value = isVersioned(parsed) ? parsed.value : parsed;
+  if (isNullish(version)) return { value };
+
+  const persistedVersion = isVersioned(parsed) ? parsed.version : 0;
+  if (persistedVersion > version) return null;
+
+  try {
+    for (let v = persistedVersion + 1; v <= version; v += 1) {
+      const migration = migrations[v];
+      if (!migration) return null;
+      value = migration(value);
+    }
+  } catch (e) {
+    console.error(`Unable to migrate persisted value to version ${version}`, e);
+    return null;
+  }
+  return { value };
+};
+
+/** Parse a persisted value and upgrade it to the current version */
+const decode = (data: string, options: PersistOptions) => migrate(forceParse(data), options);
+
+/** Serialize a value for storage, along with its version if versioned */
+const encode = (value: unknown, { version }: PersistOptions) => serialize(
+  isNullish(version) ? value : { dataType: 'Versioned', value, version } satisfies Versioned,
+);
+
+/** Accept the legacy `includeNullish` flag in place of options */
+const toOptions = (options?: boolean | PersistOptions): PersistOptions =>
+  (typeof options === 'boolean' ? { includeNullish: options } : options ?? {});
+
+/** Measured storage backends, see `withMeasurement` */
+const measured = new WeakMap<StorageAdapter, StorageAdapter>();
+
+/** Transformed storage backends, shared so that writes to a key are queued together */
+const transformed = new WeakMap<StorageAdapter, WeakMap<StorageTransform[], StorageAdapter>>();
+
+/** The storage backend of a value, measuring what is written and wrapped with its transforms */
+const storageOf = ({ storage = localStorageAdapter, transforms }: PersistOptions) => {
+  if (!measured.has(storage)) measured.set(storage, withMeasurement(storage));
+  const measuredStorage = measured.get(storage)!;
+  if (!transforms?.length) return measuredStorage;
+  const byTransforms = transformed.get(measuredStorage) ?? new WeakMap();
+  transformed.set(measuredStorage, byTransforms);
+  if (!byTransforms.has(transforms)) {
+    byTransforms.set(transforms, withTransforms(measuredStorage, transforms));
+  }
+  return byTransforms.get(transforms)!;
+};
+
+/** Pending loads of persisted values from asynchronous storage */
+const loading = new WeakMap<object, Promise<void>>();
+
+/** Stop persisting each value, by value */
+const stoppers = new WeakMap<object, () => void>();
+
+/** Values which stopped persisting, so that values still loading never start */
+const stopped = new WeakSet<object>();
+
+/** Run a storage operation, reporting failures of asynchronous storage */
+const runStorage = (key: string, operation: () => unknown) => {
+  const result = operation();
+  if (isPromiseLike(result)) {
+    Promise.resolve(result).catch((e) => {
+      console.error(`Unable to persist ${key}`, e);
+    });
+  }
+};
+
+/**
+ * Wait for a value in asynchronous storage, only starting to watch once it has
+ * loaded so that the default value does not overwrite what is stored.
+ */
+const loadAsync = (
+  key: string,
+  cachedValue: PromiseLike<string | null>,
+  options: PersistOptions,
+  apply: (parsedValue: unknown) => void,
+  startWatch: () => void,
+) => Promise.resolve(cachedValue)
+  .then((cached) => {
+    const decoded = cached ? decode(cached, options) : null;
+    if (decoded) apply(decoded.value);
+  })
+  .catch((e) => {
+    console.error(`Unable to load persisted ${key}`, e);
+  })
+  .finally(startWatch);
+
+/**
+ * Create the persistence functions for a reactivity system.
+ * @param reactivity - The reactivity system persisted values are created with and watched by.
+ */
+export const createPersistence = ({ isRef, reactive, ref, toRaw, ...reactivity }: ReactivityAdapter) => {
+  /**
+   * Used to initialize a reactive element and synchronize any changes with storage
+   * @param key - The key to use for storage
+   * @param value - The reactive element to watch
+   * @param options - Persistence options
+   */
+  const initWatch = <T>(key: string, value: ReactiveRef<T> | T, options: PersistOptions) => {
+    if (stopped.has(value as object)) return;
+    const { includeNullish, version } = options;
+    const storage = storageOf(options);
+    if (!isNullish(options.maxSize)) maxSizes.set(key, options.maxSize);
+    const predicate = isRef(value)
+      ? () => value.value
+      : () => value;
+
+    const sync = options.sync && !isRef(value)
+      ? createTabSync({
+        defaultTransport: (options.storage ?? localStorageAdapter) === localStorageAdapter
+          ? 'storage'
+          : 'broadcast',
+        key,
+        options: typeof options.sync === 'object' ? options.sync : {},
+        parse: (data) => decode(data, options)?.value,
+        serialize,
+        storage,
+        value: value as object,
+      })
+      : null;
+
+    /**
+     * Serialize the current value, null if it should be removed from storage or
+     * undefined if storage should be left as is.
+     */
+    const toStore = (current: any): string | null | undefined => {
+      if (isRef(value)) {
+        if (Array.isArray(current) || typeof current === 'object') return encode(current, options);
+        if (isNullish(current)) return undefined;
+        return isNullish(version) ? `${current}` : encode(current, options);
+      }
+      const valueToStore = includeNullish
+        ? current
+        : objectFilter(current ?? {}, nullishFilter);
+      sync?.stamp(valueToStore as Record<string, unknown>);
+      return Object.keys(valueToStore as object).length > 0
+        ? encode(valueToStore, options)
+        : null;
+    };
+
+    /**
+     * Write the current value to storage. If it is over quota, evict and retry
+     * until it fits or nothing more can be evicted.
+     */
+    const persist = (current: any, attempt = 0) => {
+      const serialized = toStore(current);
+      if (serialized === undefined) return;
+      if (serialized === null) {
+        runStorage(key, () => storage.remove(key));
+        sizes.delete(key);
+        sync?.publish(null);
+        return;
+      }
+
+      const onFailure = (error: unknown) => {
+        if (!(error instanceof StorageQuotaError)) {
+          console.error(`Unable to persist ${key}`, error);
+          return;
+        }
+        /** Eviction which fails is reported as the reason the value is over quota */
+        const report = (reason: unknown) => {
+          const quotaError = reason instanceof StorageQuotaError
+            ? reason
+            : new StorageQuotaError(key, error.size, reason);
+          if (options.onQuotaExceeded) {
+            options.onQuotaExceeded(quotaError);
+          } else {
+            console.error(quotaError);
+          }
+        };
+        const retry = (evicted: boolean) => {
+          if (!evicted) {
+            report(error);
+            return;
+          }
+          if (stopped.has(value as object)) return;
+          persist(isRef(value) ? value.value : value, attempt + 1);
+        };
+
+        let evicted: boolean | PromiseLike<boolean> = false;
+        try {
+          if (attempt < MAX_EVICTION_ATTEMPTS && options.evict) {
+            evicted = options.evict({
+              attempt,
+              excess: isNullish(options.maxSize) ? undefined : error.size - options.maxSize,
+              key,
+              size: error.size,
+            });
+          }
+        } catch (e) {
+          report(e);
+          return;
+        }
+        /** Eviction which has to wait, e.g. until records have loaded, is only reported if the retry fails */
+        if (isPromiseLike<boolean>(evicted)) {
+          Promise.resolve(evicted).then(retry, report);
+          return;
+        }
+        retry(evicted);
+      };
+
+      try {
+        const result = storage.set(key, serialized);
+        if (isPromiseLike(result)) {
+          Promise.resolve(result).then(() => options.onPersisted?.(), onFailure);
+        } else {
+          options.onPersisted?.();
+        }
+      } catch (e) {
+        onFailure(e);
+        return;
+      }
+      sync?.publish(serialized);
+    };
+
+    const stopWatch = reactivity.watch(
+      predicate,
+      (newValue) => persist(newValue),
+      {
+        deep: true,
+        immediate: true,
+      },
+    );
+    stoppers.set(value as object, () => {
+      maxSizes.delete(key);
+      stopWatch();
+      sync?.stop();
+    });
+  };
+
+  return {
+    ref<T = any>(
+      key: string,
+      defaultValue: T,
+      options?: PersistOptions,
+    ) {
+      const cachedValue = storageOf(options ?? {}).get(getKey(key));
+
+      if (isPromiseLike<string | null>(cachedValue)) {
+        const value = ref(defaultValue);
+        /** Values changed before loading has finished take precedence */
+        loading.set(value, loadAsync(key, cachedValue, toOptions(options), (parsedValue) => {
+          if (toRaw(value.value) !== toRaw(defaultValue)) return;
+          value.value = parsedValue as T;
+        }, () => initWatch(getKey(key), value, toOptions(options))));
+        return value;
+      }
+
+      const decoded = cachedValue ? decode(cachedValue, toOptions(options)) : null;
+      const parsedValue = decoded
+        ? decoded.value as T
+        : defaultValue;
+      const value = ref(parsedValue ?? defaultValue);
+      initWatch(getKey(key), value, toOptions(options));
+      return value;
+    },
+    reactive<T extends object>(
+      key: string,
+      defaultValue: T,
+      options?: boolean | PersistOptions,
+    ) {
+      const cachedValue = storageOf(toOptions(options)).get(getKey(key));
+
+      if (isPromiseLike<string | null>(cachedValue)) {
+        const initial = { ...defaultValue };
+        const value = reactive(defaultValue);
+        /**
+         * Keys set before loading has finished take precedence, keys which were only
+         * cleared, e.g. placeholders for missing records, do not
+         */
+        loading.set(value, loadAsync(key, cachedValue, toOptions(options), (parsedValue) => {
+          if (typeof parsedValue !== 'object' || parsedValue === null) return;
+          Object.entries(parsedValue).forEach(([k, v]) => {
+            const current = toRaw((value as Record<string, unknown>)[k]);
+            if (current !== (initial as Record<string, unknown>)[k] && !isNullish(current)) return;
+            (value as Record<string, unknown>)[k] = v;
+          });
+        }, () => initWatch(getKey(key), value, toOptions(options))));
+        return value;
+      }
+
+      const decoded = cachedValue ? decode(cachedValue, toOptions(options)) : null;
+      const parsedValue = decoded
+        ? decoded.value as T
+        : defaultValue;
+      const value = reactive(parsedValue);
+      initWatch(getKey(key), value, toOptions(options));
+      return value;
+    },
+    /**
+     * Get the pending load of a value persisted to asynchronous storage.
+     * @param value - A value returned by `ls.ref` or `ls.reactive`
+     * @returns A promise resolving once loaded, or null if already loaded.
+     */
+    loading(value: object): Promise<void> | null {
+      return loading.get(value) ?? null;
+    },
+    /**
+     * Stop persisting a value and synchronizing it with other tabs. The value is
+     * left as is, and what is already persisted is kept.
+     * @param value - A value returned by `ls.ref` or `ls.reactive`
+     */
+    stop(value: object) {
+      stopped.add(value);
+      stoppers.get(value)?.();
+      stoppers.delete(value);
+    },
+    /**
+     * Get the size in bytes of every value persisted during this session, as
+     * estimated from the length of the string stored, after any transforms.
+     */
+    usage() {
+      const keys = Object.fromEntries(
+        Array.from(sizes.entries()).map(([k, size]) => [k.slice(KEY_PREFIX.length), size]),
+      );
+      return {
+        keys,
+        total: Object.values(keys).reduce((acc, size) => acc + size, 0),
+      };
+    },
+    /**
+     * Remove a persisted value from storage.
+     * @param key - The key used when persisting the value
+     * @param options - Persistence options, to select the storage backend
+     */
+    remove(key: string, options?: PersistOptions) {
+      runStorage(getKey(key), () => storageOf(options ?? {}).remove(getKey(key)));
+      sizes.delete(getKey(key));
+    },
+  };
+};
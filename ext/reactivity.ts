@@ -0,0 +1,67 @@
+/**
+ * The reactivity primitives the record manager and persistence are built on, so
+ * that they run on Vue or on any other reactivity system. See `vueReactivity`
+ * for Vue, and `signals` for a dependency free implementation, e.g. for Node or
+ * for frameworks other than Vue.
+ *
+ * @pumposh
+ */
+
+/** A reactive value, tracked when read and triggering its watchers when set */
+export interface ReactiveRef<T> {
+  value: T;
+}
+
+/** A value computed from reactive values, recomputed once they change */
+export interface ComputedValue<T> {
+  readonly value: T;
+}
+
+export interface ReactiveWatchOptions {
+  /** Watch every nested value rather than only the value returned by the source */
+  deep?: boolean;
+  /** Run the callback as soon as watching starts */
+  immediate?: boolean;
+}
+
+/**
+ * Group of watchers which are stopped together, e.g. those of a component or
+ * those of a record set.
+ */
+export interface ReactivityScope {
+  readonly active: boolean;
+  /** Run a function, collecting the watchers it creates in this scope */
+  run<R>(fn: () => R): R | undefined;
+  stop(): void;
+}
+
+export interface ReactivityAdapter {
+  /** Make an object deeply reactive, including maps and sets */
+  reactive<T extends object>(value: T): T;
+  /** Read only view of a reactive object, reads are still tracked */
+  readonly<T extends object>(value: T): Readonly<T>;
+  ref<T>(value: T): ReactiveRef<T>;
+  computed<T>(getter: () => T): ComputedValue<T>;
+  isRef(value: unknown): value is ReactiveRef<unknown>;
+  /** Get the object a reactive or read only object wraps */
+  toRaw<T>(value: T): T;
+  /**
+   * Watch the reactive values read by a source. Callbacks run asynchronously,
+   * once the synchronous code changing the values has finished.
+   * @returns A function to stop watching.
+   */
+  watch<T>(
+    source: () => T,
+    callback: (value: T, oldValue: T | undefined) => void,
+    options?: ReactiveWatchOptions,
+  ): () => void;
+  /**
+   * Create a scope for watchers.
+   * @param detached - Whether the scope is left running when the current scope stops.
+   */
+  effectScope(detached?: boolean): ReactivityScope;
+  /** The scope watchers are currently created in, if any */
+  getCurrentScope(): ReactivityScope | undefined;
+  /** Run a function once the current scope stops */
+  onScopeDispose(fn: () => void): void;
+}
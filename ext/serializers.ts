@@ -0,0 +1,263 @@
+/**
+ * Registry of serializers used by the persistence system to store values which
+ * JSON cannot represent. Serialized values are tagged as `{ dataType, value }`.
+ *
+ * Objects referenced more than once, including circular references through
+ * plain objects and arrays, are stored once and restored as the same object.
+ *
+ * @pumposh
+ */
+
+import { isNullish } from './index';
+
+export interface Serializer<T = any, E = any> {
+  /** Unique tag stored with serialized values */
+  tag: string;
+  /** Determine if a value is handled by this serializer */
+  test: (value: unknown) => boolean;
+  /** Convert the value to data which is serializable, nested values are supported */
+  encode: (value: T) => E;
+  /** Restore the value from its encoded data */
+  decode: (data: E) => T;
+}
+
+interface Tagged {
+  dataType: string;
+  value: unknown;
+  id?: number;
+}
+
+/** Tags used internally to store shared and circular references */
+const SHARED = 'Shared';
+const REF = 'Ref';
+
+const typedArrays = {
+  BigInt64Array: typeof BigInt64Array === 'undefined' ? undefined : BigInt64Array,
+  BigUint64Array: typeof BigUint64Array === 'undefined' ? undefined : BigUint64Array,
+  Float32Array,
+  Float64Array,
+  Int16Array,
+  Int32Array,
+  Int8Array,
+  Uint16Array,
+  Uint32Array,
+  Uint8Array,
+  Uint8ClampedArray,
+};
+
+type TypedArrayName = keyof typeof typedArrays;
+
+const builtInSerializers: Serializer[] = [
+  {
+    tag: 'Map',
+    test: (v) => v instanceof Map,
+    encode: (v: Map<unknown, unknown>) => Array.from(v.entries()),
+    decode: (data: [unknown, unknown][]) => new Map(data),
+  },
+  {
+    tag: 'Set',
+    test: (v) => v instanceof Set,
+    encode: (v: Set<unknown>) => Array.from(v),
+    decode: (data: unknown[]) => new Set(data),
+  },
+  {
+    tag: 'Date',
+    test: (v) => v instanceof Date,
+    encode: (v: Date) => (Number.isNaN(v.getTime()) ? null : v.toISOString()),
+    decode: (data: string | null) => new Date(data ?? NaN),
+  },
+  {
+    tag: 'BigInt',
+    test: (v) => typeof v === 'bigint',
+    encode: (v: bigint) => v.toString(),
+    decode: (data: string) => BigInt(data),
+  },
+  {
+    tag: 'RegExp',
+    test: (v) => v instanceof RegExp,
+    encode: (v: RegExp) => ({ flags: v.flags, source: v.source }),
+    decode: (data: { source: string; flags: string }) => new RegExp(data.source, data.flags),
+  },
+  {
+    tag: 'URL',
+    test: (v) => typeof URL !== 'undefined' && v instanceof URL,
+    encode: (v: URL) => v.href,
+    decode: (data: string) => new URL(data),
+  },
+  {
+    tag: 'TypedArray',
+    test: (v) => ArrayBuffer.isView(v) && v.constructor.name in typedArrays,
+    encode: (v: ArrayLike<unknown>) => ({
+      data: Array.from(v),
+      type: v.constructor.name,
+    }),
+    decode: (data: { type: TypedArrayName; data: any[] }) => {
+      const TypedArray = typedArrays[data.type];
+      return TypedArray ? new TypedArray(data.data) : data.data;
+    },
+  },
+];
+
+/** Serializers registered at runtime, checked before the built-in serializers */
+const customSerializers = new Map<string, Serializer>();
+
+const allSerializers = () => [...customSerializers.values(), ...builtInSerializers];
+
+const findByValue = (value: unknown) => allSerializers().find((s) => s.test(value));
+
+const findByTag = (tag: string) =>
+  customSerializers.get(tag) ?? builtInSerializers.find((s) => s.tag === tag);
+
+/**
+ * Register a serializer for a type. Registering a tag which already exists
+ * replaces it, including built-in tags.
+ *
+ * ex.
+ * ```
+ * registerSerializer<Money, [number, string]>({
+ *   tag: 'Money',
+ *   test: (v) => v instanceof Money,
+ *   encode: (v) => [v.amount, v.currency],
+ *   decode: ([amount, currency]) => new Money(amount, currency),
+ * });
+ * ```
+ */
+export const registerSerializer = <T, E>(serializer: Serializer<T, E>) => {
+  if (serializer.tag === SHARED || serializer.tag === REF) {
+    throw new Error(`Serializer tag "${serializer.tag}" is reserved`);
+  }
+  customSerializers.set(serializer.tag, serializer);
+};
+
+/**
+ * Remove a serializer registered at runtime.
+ */
+export const unregisterSerializer = (tag: string) => {
+  customSerializers.delete(tag);
+};
+
+const isObject = (value: unknown): value is object =>
+  typeof value === 'object' && value !== null;
+
+const isTagged = (value: unknown): value is Tagged =>
+  isObject(value) && typeof (value as Tagged).dataType === 'string' && 'value' in value;
+
+/**
+ * Convert a value to a tree which JSON can represent.
+ */
+export const toSerializable = (root: unknown): unknown => {
+  const encoded = new Map<object, unknown>();
+  const encode = (serializer: Serializer, value: object) => {
+    if (!encoded.has(value)) encoded.set(value, serializer.encode(value));
+    return encoded.get(value);
+  };
+
+  /** First pass to find objects which are referenced more than once */
+  const seen = new Set<object>();
+  const shared = new Set<object>();
+  const collect = (value: unknown) => {
+    if (!isObject(value)) return;
+    if (seen.has(value)) {
+      shared.add(value);
+      return;
+    }
+    seen.add(value);
+    const serializer = findByValue(value);
+    if (serializer) {
+      collect(encode(serializer, value));
+    } else if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      collect((value as { toJSON: () => unknown }).toJSON());
+    } else {
+      Object.values(value).forEach(collect);
+    }
+  };
+  collect(root);
+
+  const ids = new Map<object, number>();
+  const walk = (value: unknown): unknown => {
+    if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+    if (!isObject(value)) {
+      const serializer = isNullish(value) ? undefined : findByValue(value);
+      return serializer
+        ? { dataType: serializer.tag, value: walk(serializer.encode(value)) }
+        : value;
+    }
+
+    const existingId = ids.get(value);
+    if (existingId !== undefined) return { dataType: REF, value: existingId };
+    if (shared.has(value)) ids.set(value, ids.size);
+
+    const serializer = findByValue(value);
+    let result: unknown;
+    if (serializer) {
+      result = { dataType: serializer.tag, value: walk(encode(serializer, value)) };
+    } else if (Array.isArray(value)) {
+      result = value.map(walk);
+    } else if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      result = walk((value as { toJSON: () => unknown }).toJSON());
+    } else {
+      result = Object.fromEntries(
+        Object.entries(value)
+          .map(([k, v]) => [k, walk(v)])
+          .filter(([, v]) => v !== undefined),
+      );
+    }
+
+    const id = ids.get(value);
+    return id === undefined ? result : { dataType: SHARED, id, value: result };
+  };
+
+  return walk(root);
+};
+
+/**
+ * Restore a value from the tree produced by `toSerializable`.
+ */
+export const fromSerializable = (root: unknown): unknown => {
+  const refs = new Map<number, unknown>();
+
+  /** Plain containers are created before their children to allow circular references */
+  const fill = (node: object, target: Record<string, unknown> | unknown[]) => {
+    Object.entries(node).forEach(([k, v]) => {
+      (target as Record<string, unknown>)[k] = walk(v);
+    });
+    return target;
+  };
+
+  const walk = (node: unknown): unknown => {
+    if (!isObject(node)) return node;
+    if (Array.isArray(node)) return fill(node, []);
+    if (!isTagged(node)) return fill(node, {});
+
+    if (node.dataType === REF) return refs.get(node.value as number);
+    if (node.dataType === SHARED) {
+      const { id, value } = node;
+      if (isObject(value) && !isTagged(value)) {
+        const target = Array.isArray(value) ? [] : {};
+        refs.set(id as number, target);
+        return fill(value, target);
+      }
+      const result = walk(value);
+      refs.set(id as number, result);
+      return result;
+    }
+
+    const serializer = findByTag(node.dataType);
+    if (!serializer) return fill(node, {});
+    return serializer.decode(walk(node.value));
+  };
+
+  return walk(root);
+};
+
+/**
+ * Serialize a value to a string using the registered serializers.
+ */
+export const serialize = (value: unknown): string =>
+  JSON.stringify(toSerializable(value));
+
+/**
+ * Parse a string produced by `serialize`.
+ */
+export const deserialize = (data: string): unknown =>
+  fromSerializable(JSON.parse(data));
@@ -0,0 +1,432 @@
+/**
+ * A small, dependency free reactivity system implementing `ReactivityAdapter`,
+ * so that record managers and persistence run without Vue, e.g. in Node or
+ * within a React app, which subscribes to changes with `watch`.
+ *
+ * ex.
+ * ```
+ * const users = createRecordManager(signals)<User>({ context: 'users' })({});
+ * const stop = signals.watch(() => users.get(id), (user) => render(user));
+ * ```
+ *
+ * Like Vue, reads of reactive objects, refs and computed values are tracked,
+ * computed values are recomputed lazily and watcher callbacks are batched until
+ * the synchronous code changing their sources has finished.
+ *
+ * @pumposh
+ */
+
+import type {
+  ComputedValue,
+  ReactiveRef,
+  ReactiveWatchOptions,
+  ReactivityAdapter,
+  ReactivityScope,
+} from './reactivity';
+
+interface Effect {
+  /** Sets of effects depending on a value, which this effect belongs to */
+  deps: Set<Set<Effect>>;
+  /** Called when a value the effect depends on changes */
+  schedule: () => void;
+}
+
+const RAW = Symbol('raw');
+const REF = Symbol('ref');
+/** Key tracked by reads of the keys or size of an object, map or set */
+const ITERATE = Symbol('iterate');
+
+/** Maximum number of rounds of watcher callbacks run in a single flush */
+const MAX_FLUSH_ROUNDS = 100;
+
+let activeEffect: Effect | null = null;
+let activeScope: SignalsScope | null = null;
+
+const dependents = new WeakMap<object, Map<unknown, Set<Effect>>>();
+const reactives = new WeakMap<object, object>();
+const readonlies = new WeakMap<object, object>();
+
+const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+/** Only plain objects, arrays, maps and sets are made reactive, as in Vue */
+const isObservable = (value: unknown): value is object => isObject(value)
+  && (Array.isArray(value) || value instanceof Map || value instanceof Set
+    || [Object.prototype, null].includes(Object.getPrototypeOf(value)))
+  && Object.isExtensible(value);
+
+const toRaw = <T>(value: T): T => {
+  const raw = isObject(value) ? (value as Record<symbol, unknown>)[RAW] : undefined;
+  return raw ? toRaw(raw as T) : value;
+};
+
+const track = (target: object, key: unknown) => {
+  if (!activeEffect) return;
+  const byKey = dependents.get(target) ?? new Map<unknown, Set<Effect>>();
+  dependents.set(target, byKey);
+  const effects = byKey.get(key) ?? new Set<Effect>();
+  byKey.set(key, effects);
+  effects.add(activeEffect);
+  activeEffect.deps.add(effects);
+};
+
+const trigger = (target: object, ...keys: unknown[]) => {
+  const byKey = dependents.get(target);
+  if (!byKey) return;
+  const effects = new Set<Effect>();
+  keys.forEach((key) => byKey.get(key)?.forEach((effect) => effects.add(effect)));
+  effects.forEach((effect) => effect.schedule());
+};
+
+const cleanup = (effect: Effect) => {
+  effect.deps.forEach((effects) => effects.delete(effect));
+  effect.deps.clear();
+};
+
+/** Run a function as an effect, tracking the values it reads from scratch */
+const runEffect = <T>(effect: Effect, fn: () => T): T => {
+  cleanup(effect);
+  const previous = activeEffect;
+  activeEffect = effect;
+  try {
+    return fn();
+  } finally {
+    activeEffect = previous;
+  }
+};
+
+/** Callbacks of watchers waiting for the current synchronous code to finish */
+const queue = new Set<() => void>();
+let isFlushQueued = false;
+
+const flush = () => {
+  for (let round = 0; queue.size > 0; round++) {
+    if (round >= MAX_FLUSH_ROUNDS) {
+      console.error('Watchers kept triggering each other, stopping after too many rounds');
+      queue.clear();
+      break;
+    }
+    const jobs = Array.from(queue);
+    queue.clear();
+    jobs.forEach((job) => job());
+  }
+  isFlushQueued = false;
+};
+
+const enqueue = (job: () => void) => {
+  queue.add(job);
+  if (isFlushQueued) return;
+  isFlushQueued = true;
+  queueMicrotask(flush);
+};
+
+const reactive = <T extends object>(value: T): T => {
+  if (!isObservable(value) || (value as Record<symbol, unknown>)[RAW]) return value;
+  const existing = reactives.get(value);
+  if (existing) return existing as T;
+  const proxy = value instanceof Map || value instanceof Set
+    ? reactiveCollection(value)
+    : reactiveObject(value);
+  reactives.set(value, proxy);
+  return proxy as T;
+};
+
+const wrap = (value: unknown) => (isObservable(value) ? reactive(value) : value);
+
+const reactiveObject = (target: object) => new Proxy(target, {
+  get(t, key, receiver) {
+    if (key === RAW) return t;
+    const value = Reflect.get(t, key, receiver);
+    if (typeof key === 'symbol') return value;
+    track(t, key);
+    return isRef(value) ? value : wrap(value);
+  },
+  set(t, key, value, receiver) {
+    const had = Object.prototype.hasOwnProperty.call(t, key);
+    const prev = (t as Record<PropertyKey, unknown>)[key];
+    const raw = toRaw(value);
+    const result = Reflect.set(t, key, raw, receiver === reactives.get(t) ? t : receiver);
+    if (!had) {
+      trigger(t, key, ITERATE, 'length');
+    } else if (!Object.is(prev, raw)) {
+      trigger(t, key, ...(Array.isArray(t) ? [ITERATE] : []));
+    }
+    return result;
+  },
+  deleteProperty(t, key) {
+    const had = Object.prototype.hasOwnProperty.call(t, key);
+    const result = Reflect.deleteProperty(t, key);
+    if (had) trigger(t, key, ITERATE);
+    return result;
+  },
+  has(t, key) {
+    if (typeof key !== 'symbol') track(t, key);
+    return Reflect.has(t, key);
+  },
+  ownKeys(t) {
+    track(t, Array.isArray(t) ? 'length' : ITERATE);
+    track(t, ITERATE);
+    return Reflect.ownKeys(t);
+  },
+});
+
+const reactiveCollection = (target: Map<unknown, unknown> | Set<unknown>) => {
+  const map = target as Map<unknown, unknown>;
+  const set = target as Set<unknown>;
+  const iterate = (t: typeof target, method: 'entries' | 'keys' | 'values') => {
+    track(t, ITERATE);
+    const iterator = t[method]();
+    return {
+      [Symbol.iterator]() { return this; },
+      next: () => {
+        const { done, value } = iterator.next();
+        if (done) return { done, value };
+        return {
+          done,
+          value: method === 'entries'
+            ? [wrap((value as unknown[])[0]), wrap((value as unknown[])[1])]
+            : wrap(value),
+        };
+      },
+    };
+  };
+
+  const methods: Record<PropertyKey, unknown> = {
+    add: (value: unknown) => {
+      const raw = toRaw(value);
+      if (!set.has(raw)) {
+        set.add(raw);
+        trigger(target, raw, ITERATE);
+      }
+      return proxy;
+    },
+    clear: () => {
+      const keys = Array.from(target.keys());
+      target.clear();
+      trigger(target, ITERATE, ...keys);
+    },
+    delete: (key: unknown) => {
+      const raw = toRaw(key);
+      const result = target.delete(raw);
+      if (result) trigger(target, raw, ITERATE);
+      return result;
+    },
+    entries: () => iterate(target, 'entries'),
+    forEach: (callback: (value: unknown, key: unknown, collection: unknown) => void) => {
+      track(target, ITERATE);
+      target.forEach((value, key) => callback(wrap(value), wrap(key), proxy));
+    },
+    get: (key: unknown) => {
+      const raw = toRaw(key);
+      track(target, raw);
+      return wrap(map.get(raw));
+    },
+    has: (key: unknown) => {
+      const raw = toRaw(key);
+      track(target, raw);
+      return target.has(raw);
+    },
+    keys: () => iterate(target, 'keys'),
+    set: (key: unknown, value: unknown) => {
+      const raw = toRaw(key);
+      const had = map.has(raw);
+      const prev = map.get(raw);
+      map.set(raw, toRaw(value));
+      if (!had) {
+        trigger(target, raw, ITERATE);
+      } else if (!Object.is(prev, toRaw(value))) {
+        trigger(target, raw);
+      }
+      return proxy;
+    },
+    values: () => iterate(target, 'values'),
+    [Symbol.iterator]: () => iterate(target, target instanceof Map ? 'entries' : 'values'),
+  };
+
+  const proxy: object = new Proxy(target, {
+    get(t, key) {
+      if (key === RAW) return t;
+      if (key === 'size') {
+        track(t, ITERATE);
+        return t.size;
+      }
+      if (Object.prototype.hasOwnProperty.call(methods, key)) return methods[key];
+      const value = Reflect.get(t, key, t);
+      return typeof value === 'function' ? value.bind(t) : value;
+    },
+  });
+  return proxy;
+};
+
+const readonly = <T extends object>(value: T): Readonly<T> => {
+  const target = toRaw(value);
+  if (!isObservable(target)) return value;
+  const existing = readonlies.get(target);
+  if (existing) return existing as T;
+  const source = reactive(target) as Record<PropertyKey, unknown>;
+  const proxy = new Proxy(target, {
+    get(t, key) {
+      if (key === RAW) return t;
+      const result = source[key];
+      if (typeof result === 'function') return result.bind(source);
+      return isObservable(toRaw(result)) ? readonly(result as object) : result;
+    },
+    set(_t, key) {
+      console.warn(`Unable to set ${String(key)}, the object is read only`);
+      return true;
+    },
+    deleteProperty(_t, key) {
+      console.warn(`Unable to delete ${String(key)}, the object is read only`);
+      return true;
+    },
+    has: (_t, key) => key in source,
+    ownKeys: () => Reflect.ownKeys(source),
+  });
+  readonlies.set(target, proxy);
+  return proxy as T;
+};
+
+const isRef = (value: unknown): value is ReactiveRef<unknown> =>
+  isObject(value) && (value as Record<symbol, unknown>)[REF] === true;
+
+const ref = <T>(initial: T): ReactiveRef<T> => {
+  let current = toRaw(initial);
+  const r = {
+    [REF]: true,
+    get value() {
+      track(r, 'value');
+      return wrap(current) as T;
+    },
+    set value(next: T) {
+      const raw = toRaw(next);
+      if (Object.is(raw, current)) return;
+      current = raw;
+      trigger(r, 'value');
+    },
+  };
+  return r;
+};
+
+const computed = <T>(getter: () => T): ComputedValue<T> => {
+  let value: T;
+  let isDirty = true;
+  const effect: Effect = {
+    deps: new Set(),
+    schedule: () => {
+      if (isDirty) return;
+      isDirty = true;
+      trigger(c, 'value');
+    },
+  };
+  const c = {
+    [REF]: true,
+    get value() {
+      track(c, 'value');
+      if (isDirty) {
+        value = runEffect(effect, getter);
+        isDirty = false;
+      }
+      return value;
+    },
+  };
+  return c;
+};
+
+/** Read every nested value, so that a watcher depends on all of them */
+const traverse = (value: unknown, seen = new Set<unknown>()): unknown => {
+  if (!isObject(value) || seen.has(value)) return value;
+  seen.add(value);
+  if (isRef(value)) {
+    traverse(value.value, seen);
+  } else if (value instanceof Map || value instanceof Set) {
+    (value as Map<unknown, unknown>).forEach((v) => traverse(v, seen));
+  } else {
+    Object.keys(value).forEach((key) => traverse((value as Record<string, unknown>)[key], seen));
+  }
+  return value;
+};
+
+class SignalsScope implements ReactivityScope {
+  active = true;
+  private cleanups: (() => void)[] = [];
+
+  constructor(detached = false) {
+    if (!detached) activeScope?.cleanups.push(() => this.stop());
+  }
+
+  run<R>(fn: () => R): R | undefined {
+    if (!this.active) return undefined;
+    const previous = activeScope;
+    activeScope = this;
+    try {
+      return fn();
+    } finally {
+      activeScope = previous;
+    }
+  }
+
+  stop() {
+    if (!this.active) return;
+    this.active = false;
+    this.cleanups.splice(0).forEach((fn) => fn());
+  }
+
+  /** Run a function once the scope stops */
+  onStop(fn: () => void) {
+    this.cleanups.push(fn);
+  }
+}
+
+const watch = <T>(
+  source: () => T,
+  callback: (value: T, oldValue: T | undefined) => void,
+  options?: ReactiveWatchOptions,
+) => {
+  let isActive = true;
+  let oldValue: T | undefined;
+  const getter = options?.deep ? () => traverse(source()) as T : source;
+
+  const call = (value: T, previous: T | undefined) => {
+    try {
+      callback(value, previous);
+    } catch (e) {
+      console.error('Unhandled error in a watcher callback', e);
+    }
+  };
+
+  const job = () => {
+    if (!isActive) return;
+    const value = runEffect(effect, getter);
+    if (!options?.deep && Object.is(value, oldValue)) return;
+    const previous = oldValue;
+    oldValue = value;
+    call(value, previous);
+  };
+  const effect: Effect = {
+    deps: new Set(),
+    schedule: () => enqueue(job),
+  };
+
+  oldValue = runEffect(effect, getter);
+  if (options?.immediate) call(oldValue, undefined);
+
+  const stop = () => {
+    isActive = false;
+    cleanup(effect);
+    queue.delete(job);
+  };
+  activeScope?.onStop(stop);
+  return stop;
+};
+
+export const signals: ReactivityAdapter = {
+  computed,
+  effectScope: (detached) => new SignalsScope(detached),
+  getCurrentScope: () => activeScope ?? undefined,
+  isRef,
+  onScopeDispose: (fn) => activeScope?.onStop(fn),
+  reactive,
+  readonly,
+  ref,
+  toRaw,
+  watch,
+};
@@ -1,6 +1,16 @@
-import { type UnwrapNestedRefs, reactive } from 'vue';
+import {
+  type UnwrapNestedRefs,
+  getCurrentScope,
+  onScopeDispose,
+  reactive,
+  toRaw,
+  watch,
+} from 'vue';
 
+import { diffObjectsDeep } from './diff';
+import { registerInspectable } from './inspection';
 import { ls } from './persistence';
+import { deserialize, serialize } from './serializers';
 
 type Setters<T> = {
   [K in keyof T]: (value: T[K]) => void;
@@ -13,11 +23,16 @@ type AutoState<T> = {
   set: Setters<T>;
 }
 
+/** Deep copy of a state as it is now, to diff against once changed */
+const snapshot = (value: unknown) => deserialize(serialize(toRaw(value)));
+
 /**
  * autoState creates an object with a reactive value and setters for each key in the initialState.
  * The setters are auto-generated and will update the reactive value when called.
  */
 export const autoState = <T extends object>(initialState: T, options?: {
+  /** Name shown in developer tools, defaults to the persistence key */
+  name?: string;
   persist?: {
     lsKey: string;
   };
@@ -45,5 +60,21 @@ export const autoState = <T extends object>(initialState: T, options?: {
     },
   };
 
+  const unregisterInspectable = registerInspectable({
+    inspect: () => ({ state: { ...toRaw(state.value) } as Record<string, unknown> }),
+    label: options?.name ?? options?.persist?.lsKey ?? 'autoState',
+    subscribe: (listener) => {
+      let prev = snapshot(state.value);
+      return watch(() => state.value, (value) => {
+        const next = snapshot(value);
+        listener({ data: { diff: diffObjectsDeep(prev, next), next, prev }, title: 'updated' });
+        prev = next;
+      }, { deep: true });
+    },
+    type: 'autoState',
+  });
+  /** Stop inspecting the state along with the component or scope it is created in */
+  if (getCurrentScope()) onScopeDispose(unregisterInspectable);
+
   return state;
 };
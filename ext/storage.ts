@@ -0,0 +1,116 @@
+/**
+ * Storage backends for the persistence system. Each adapter stores serialized
+ * strings by key and may be synchronous or asynchronous.
+ *
+ * @pumposh
+ */
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface StorageAdapter {
+  get(key: string): MaybePromise<string | null>;
+  set(key: string, value: string): MaybePromise<void>;
+  remove(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+}
+
+/**
+ * Create an adapter for a web storage object. The storage is resolved lazily so
+ * that adapters can be created where it is unavailable, e.g. during server-side
+ * rendering, in which case nothing is stored.
+ * @param getStorage - Returns the storage object to use.
+ */
+export const webStorageAdapter = (getStorage: () => Storage): StorageAdapter => {
+  /** Access to web storage throws in some contexts, such as sandboxed iframes */
+  const resolve = () => {
+    if (typeof window === 'undefined') return null;
+    try {
+      return getStorage();
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    get: (key) => resolve()?.getItem(key) ?? null,
+    set: (key, value) => resolve()?.setItem(key, value),
+    remove: (key) => resolve()?.removeItem(key),
+    keys: () => {
+      const storage = resolve();
+      if (!storage) return [];
+      return Array.from({ length: storage.length }, (_, i) => storage.key(i))
+        .filter((key): key is string => key !== null);
+    },
+  };
+};
+
+export const localStorageAdapter = webStorageAdapter(() => localStorage);
+
+export const sessionStorageAdapter = webStorageAdapter(() => sessionStorage);
+
+/**
+ * Create an adapter which keeps values in memory. Useful for tests and for
+ * environments without a DOM.
+ * @param initial - Values to start with, by key.
+ */
+export const memoryAdapter = (initial: Record<string, string> = {}): StorageAdapter => {
+  const store = new Map(Object.entries(initial));
+  return {
+    get: (key) => store.get(key) ?? null,
+    set: (key, value) => {
+      store.set(key, value);
+    },
+    remove: (key) => {
+      store.delete(key);
+    },
+    keys: () => Array.from(store.keys()),
+  };
+};
+
+/**
+ * Create an adapter backed by an IndexedDB object store. Suited to record sets
+ * which exceed the local storage quota. Nothing is stored where IndexedDB is
+ * unavailable, e.g. during server-side rendering.
+ * @param options.name - The name of the database.
+ * @param options.store - The name of the object store within the database.
+ */
+export const indexedDBAdapter = ({
+  name = 'tezra-persist',
+  store = 'persist',
+}: {
+  name?: string;
+  store?: string;
+} = {}): StorageAdapter => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(store);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const run = <R>(
+    mode: IDBTransactionMode,
+    fn: (objectStore: IDBObjectStore) => IDBRequest<R>,
+  ): Promise<R | undefined> => (typeof indexedDB === 'undefined'
+    ? Promise.resolve(undefined)
+    : open().then((db) => new Promise<R>((resolve, reject) => {
+    const request = fn(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  })));
+
+  return {
+    get: (key) => run('readonly', (s) => s.get(key))
+      .then((value) => (typeof value === 'string' ? value : null)),
+    set: (key, value) => run('readwrite', (s) => s.put(value, key)).then(() => undefined),
+    remove: (key) => run('readwrite', (s) => s.delete(key)).then(() => undefined),
+    keys: () => run('readonly', (s) => s.getAllKeys()).then((keys) => (keys ?? []).map(String)),
+  };
+};
@@ -0,0 +1,263 @@
+/**
+ * Synchronization of persisted reactive objects between browser tabs.
+ *
+ * Every top-level key of a synchronized object is stamped with the time it was
+ * last written. Stamps are stored next to the persisted value and sent along with
+ * every change, so that incoming changes can be merged key by key according to a
+ * conflict policy rather than one tab overwriting the other.
+ *
+ * @pumposh
+ */
+
+import { isPromiseLike } from './index';
+import type { StorageAdapter } from './storage';
+
+type Stamps = Record<string, number>;
+
+export interface ConflictContext {
+  /** The top-level key of the object in conflict, e.g. a record id */
+  key: string;
+  /** When the local value was last written, 0 if never */
+  localUpdated: number;
+  /** When the incoming value was last written, 0 if never */
+  incomingUpdated: number;
+}
+
+/**
+ * Decide the value to keep when a key has changed in another tab.
+ * Returning `undefined` removes the key.
+ */
+export type ConflictResolver = (
+  local: unknown,
+  incoming: unknown,
+  context: ConflictContext,
+) => unknown;
+
+export interface SyncOptions {
+  /**
+   * How changes reach other tabs. `storage` relies on the `storage` event and
+   * only works with local storage, `broadcast` uses a `BroadcastChannel` and
+   * works with any storage backend. Defaults to `storage` for local storage.
+   */
+  transport?: 'storage' | 'broadcast';
+  /** Conflict policy, defaults to `lastWriteWins` */
+  resolve?: ConflictResolver;
+  /** Called with the keys changed by merging an incoming change */
+  onMerge?: (keys: string[]) => void;
+}
+
+interface SyncMessage {
+  value: string | null;
+  stamps: Stamps;
+}
+
+/** Keep whichever value was written last, preferring the incoming one on a tie */
+export const lastWriteWins: ConflictResolver = (local, incoming, { localUpdated, incomingUpdated }) =>
+  (incomingUpdated >= localUpdated ? incoming : local);
+
+export const getSyncKey = (key: string) => `${key}[sync]`;
+
+/**
+ * Time in milliseconds stamps of removed keys are kept for, so that tabs which
+ * still hold a key do not restore it. Tabs out of sync for longer may.
+ * 1 week
+ */
+const TOMBSTONE_TTL = 1000 * 60 * 60 * 24 * 7;
+
+/**
+ * Synchronize a persisted reactive object with other tabs.
+ * @param key - The storage key of the persisted value.
+ * @param storage - The storage backend the value is persisted to.
+ * @param value - The reactive object.
+ * @param options - Sync options.
+ * @param serialize - Serializes a single value the way it is persisted.
+ * @param parse - Parses a persisted value, returning undefined if unreadable.
+ * @param defaultTransport - The transport to use if none is given.
+ */
+export const createTabSync = <T extends object>({
+  key,
+  storage,
+  value,
+  options,
+  serialize,
+  parse,
+  defaultTransport,
+}: {
+  key: string;
+  storage: StorageAdapter;
+  value: T;
+  options: SyncOptions;
+  serialize: (v: unknown) => string;
+  parse: (data: string) => unknown;
+  defaultTransport: SyncOptions['transport'];
+}) => {
+  const { resolve = lastWriteWins, onMerge } = options;
+  const transport = options.transport ?? defaultTransport ?? 'broadcast';
+  const target = value as Record<string, unknown>;
+
+  let stamps: Stamps = {};
+  /** Whether stamps changed since they were last stored */
+  let isDirty = false;
+  /** Serialized value of each key as last written or merged */
+  let written: Record<string, string> | null = null;
+
+  const setStamp = (k: string, updated: number) => {
+    if (stamps[k] === updated) return;
+    stamps[k] = updated;
+    isDirty = true;
+  };
+
+  const parseStamps = (data: string | null): Stamps => {
+    try {
+      const parsed = data ? JSON.parse(data) : null;
+      return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch {
+      return {};
+    }
+  };
+
+  const stored = storage.get(getSyncKey(key));
+  if (isPromiseLike<string | null>(stored)) {
+    Promise.resolve(stored).then((data) => {
+      stamps = { ...parseStamps(data), ...stamps };
+    });
+  } else {
+    stamps = parseStamps(stored);
+  }
+
+  const serializeKeys = (obj: Record<string, unknown>) => Object.fromEntries(
+    Object.entries(obj).map(([k, v]) => [k, serialize(v)]),
+  );
+
+  /**
+   * Stamp every key which changed since the last write, including removed keys.
+   * Must be called with the value about to be persisted, before it is written.
+   * The first call only records the loaded state without stamping it. Stamps of
+   * keys removed longer than `TOMBSTONE_TTL` ago are dropped, and stamps are only
+   * stored if any changed.
+   */
+  const stamp = (valueToStore: Record<string, unknown>) => {
+    const next = serializeKeys(valueToStore);
+    const now = Date.now();
+    if (written) {
+      const keys = new Set([...Object.keys(written), ...Object.keys(next)]);
+      keys.forEach((k) => {
+        if (written?.[k] !== next[k]) setStamp(k, now);
+      });
+    }
+    written = next;
+    Object.keys(stamps).forEach((k) => {
+      if (k in next || now - stamps[k] <= TOMBSTONE_TTL) return;
+      delete stamps[k];
+      isDirty = true;
+    });
+
+    if (!isDirty) return;
+    isDirty = false;
+    const result = storage.set(getSyncKey(key), JSON.stringify(stamps));
+    if (isPromiseLike(result)) Promise.resolve(result).catch(() => {});
+  };
+
+  /**
+   * Merge an incoming change into the reactive object.
+   * @param data - The persisted value in the other tab, null if removed.
+   * @param incomingStamps - The stamps of the other tab.
+   */
+  const receive = (data: string | null, incomingStamps: Stamps) => {
+    const parsed = data ? parse(data) : {};
+    /** Values this tab is unable to read, e.g. of a newer version, are ignored */
+    if (parsed === undefined) return;
+    const incoming = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+    const local = serializeKeys(target);
+    const incomingSerialized = serializeKeys(incoming);
+    const keys = new Set([
+      ...Object.keys(local),
+      ...Object.keys(incoming),
+      ...Object.keys(incomingStamps),
+    ]);
+
+    const changed: string[] = [];
+    keys.forEach((k) => {
+      const incomingUpdated = incomingStamps[k] ?? 0;
+      if (local[k] === incomingSerialized[k]) {
+        setStamp(k, Math.max(stamps[k] ?? 0, incomingUpdated));
+        return;
+      }
+      const localUpdated = stamps[k] ?? 0;
+      const resolved = resolve(target[k], incoming[k], { incomingUpdated, key: k, localUpdated });
+      const resolvedSerialized = resolved === undefined ? undefined : serialize(resolved);
+      if (resolvedSerialized === local[k]) return;
+
+      if (resolved === undefined) {
+        delete target[k];
+      } else {
+        target[k] = resolved;
+      }
+      setStamp(k, Math.max(localUpdated, incomingUpdated));
+
+      /** Merged values are not local changes and must not be stamped as such */
+      if (written) {
+        if (resolvedSerialized === undefined) {
+          delete written[k];
+        } else {
+          written[k] = resolvedSerialized;
+        }
+      }
+      changed.push(k);
+    });
+
+    if (changed.length > 0) onMerge?.(changed);
+  };
+
+  /** Only browsers have other tabs, servers would leak a channel per synchronized value */
+  const channel = transport === 'broadcast'
+    && typeof window !== 'undefined'
+    && typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(`tezra-sync:${key}`)
+    : null;
+
+  const onMessage = (event: MessageEvent<SyncMessage>) => {
+    receive(event.data.value, event.data.stamps);
+  };
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== key) return;
+    /** Read back through the adapter rather than from the event, which skips its transforms */
+    const data = storage.get(key);
+    const incomingStamps = storage.get(getSyncKey(key));
+    if (isPromiseLike(data) || isPromiseLike(incomingStamps)) {
+      Promise.all([data, incomingStamps])
+        .then(([d, s]) => receive(d, parseStamps(s)))
+        .catch((e) => console.error(`Unable to sync ${key}`, e));
+      return;
+    }
+    receive(data, parseStamps(incomingStamps));
+  };
+
+  channel?.addEventListener('message', onMessage);
+  /** A `window` is not necessarily a full DOM, e.g. when stubbed in tests or workers */
+  const isListening = transport === 'storage'
+    && typeof window !== 'undefined'
+    && typeof window.addEventListener === 'function'
+    && typeof window.removeEventListener === 'function';
+  if (isListening) window.addEventListener('storage', onStorage);
+
+  /**
+   * Let other tabs know about a write.
+   * @param data - The persisted value, null if removed.
+   */
+  const publish = (data: string | null) => {
+    channel?.postMessage({ stamps, value: data } satisfies SyncMessage);
+  };
+
+  const stop = () => {
+    channel?.close();
+    if (isListening) window.removeEventListener('storage', onStorage);
+  };
+
+  return {
+    publish,
+    stamp,
+    stop,
+  };
+};
@@ -0,0 +1,209 @@
+/**
+ * Transforms applied to serialized values on their way to and from storage,
+ * such as compression and encryption. Transforms run in order on write and in
+ * reverse order on read, e.g. `[compression(), encryption(key)]` compresses
+ * before encrypting.
+ *
+ * Each transform prefixes its output, so values written before a transform was
+ * enabled are still read as they are.
+ *
+ * @pumposh
+ */
+
+import { isPromiseLike } from './index';
+import type { MaybePromise, StorageAdapter } from './storage';
+
+export interface StorageTransform {
+  /** Transform a serialized value before it is written */
+  encode: (value: string) => MaybePromise<string>;
+  /** Restore a serialized value after it is read */
+  decode: (value: string) => MaybePromise<string>;
+}
+
+const COMPRESSED_PREFIX = 'lz:';
+const ENCRYPTED_PREFIX = 'aes:';
+
+/** Compressed codes are offset to stay clear of control characters */
+const CODE_OFFSET = 32;
+/** Codes are kept below the surrogate range so that output is valid UTF-16 */
+const MAX_CODES = 0xd800 - CODE_OFFSET;
+
+/** Length of the initialization vector recommended for AES-GCM */
+const IV_LENGTH = 12;
+
+/** Converting in chunks avoids exceeding the maximum number of call arguments */
+const CHUNK_SIZE = 0x8000;
+
+const bytesToBinary = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return binary;
+};
+
+const binaryToBytes = (binary: string) =>
+  Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+/**
+ * Compress a string with LZW over its UTF-8 bytes, emitting one UTF-16 character
+ * per code. Once the dictionary is full, existing codes keep being used.
+ */
+export const compress = (value: string): string => {
+  const dictionary = new Map<string, number>();
+  for (let i = 0; i < 256; i += 1) dictionary.set(String.fromCharCode(i), i);
+
+  const codes: number[] = [];
+  let word = '';
+  new TextEncoder().encode(value).forEach((byte) => {
+    const char = String.fromCharCode(byte);
+    const extended = word + char;
+    if (dictionary.has(extended)) {
+      word = extended;
+      return;
+    }
+    codes.push(dictionary.get(word)!);
+    if (dictionary.size < MAX_CODES) dictionary.set(extended, dictionary.size);
+    word = char;
+  });
+  if (word) codes.push(dictionary.get(word)!);
+
+  return codes.map((code) => String.fromCharCode(code + CODE_OFFSET)).join('');
+};
+
+/**
+ * Restore a string produced by `compress`.
+ */
+export const decompress = (value: string): string => {
+  if (!value) return '';
+  const dictionary = Array.from({ length: 256 }, (_, i) => String.fromCharCode(i));
+  const codes = Array.from(value, (char) => char.charCodeAt(0) - CODE_OFFSET);
+
+  let word = dictionary[codes[0]];
+  const words = [word];
+  codes.slice(1).forEach((code) => {
+    let entry: string;
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = word + word[0];
+    } else {
+      throw new Error('Invalid compressed value');
+    }
+    words.push(entry);
+    if (dictionary.length < MAX_CODES) dictionary.push(word + entry[0]);
+    word = entry;
+  });
+
+  return new TextDecoder().decode(binaryToBytes(words.join('')));
+};
+
+/**
+ * Compress persisted values. Worthwhile for large, repetitive values such as
+ * record sets, at the cost of some CPU on every write.
+ */
+export const compression = (): StorageTransform => ({
+  encode: (value) => `${COMPRESSED_PREFIX}${compress(value)}`,
+  decode: (value) => (value.startsWith(COMPRESSED_PREFIX)
+    ? decompress(value.slice(COMPRESSED_PREFIX.length))
+    : value),
+});
+
+/**
+ * Encrypt persisted values with AES-GCM, using a fresh initialization vector
+ * for every write. Reading a value encrypted with another key fails, and the
+ * value is then treated as missing.
+ *
+ * ex.
+ * ```
+ * const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+ * ls.reactive('patients', {}, { transforms: [compression(), encryption(key)] });
+ * ```
+ * @param key - An AES-GCM key allowed to encrypt and decrypt, or a promise of one.
+ */
+export const encryption = (key: CryptoKey | PromiseLike<CryptoKey>): StorageTransform => ({
+  encode: async (value) => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await crypto.subtle.encrypt(
+      { iv, name: 'AES-GCM' },
+      await key,
+      new TextEncoder().encode(value),
+    );
+    const bytes = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+    bytes.set(iv);
+    bytes.set(new Uint8Array(encrypted), IV_LENGTH);
+    return `${ENCRYPTED_PREFIX}${btoa(bytesToBinary(bytes))}`;
+  },
+  decode: async (value) => {
+    if (!value.startsWith(ENCRYPTED_PREFIX)) return value;
+    const bytes = binaryToBytes(atob(value.slice(ENCRYPTED_PREFIX.length)));
+    const decrypted = await crypto.subtle.decrypt(
+      { iv: bytes.subarray(0, IV_LENGTH), name: 'AES-GCM' },
+      await key,
+      bytes.subarray(IV_LENGTH),
+    );
+    return new TextDecoder().decode(decrypted);
+  },
+});
+
+/** Run transforms in sequence, staying synchronous until one of them is not */
+const pipe = (value: string, steps: StorageTransform['encode'][]) =>
+  steps.reduce<MaybePromise<string>>(
+    (acc, step) => (isPromiseLike<string>(acc) ? Promise.resolve(acc).then(step) : step(acc)),
+    value,
+  );
+
+/**
+ * Wrap a storage adapter to apply transforms to every value it reads and writes.
+ * The wrapped adapter is only asynchronous if the adapter or a transform is.
+ * @param storage - The storage adapter to wrap.
+ * @param transforms - Transforms to apply, in the order they run on write.
+ */
+export const withTransforms = (
+  storage: StorageAdapter,
+  transforms: StorageTransform[] = [],
+): StorageAdapter => {
+  if (transforms.length === 0) return storage;
+  const encoders = transforms.map((t) => t.encode);
+  const decoders = transforms.map((t) => t.decode).reverse();
+
+  /** Pending writes by key, so that slower transforms cannot reorder them */
+  const pending = new Map<string, Promise<unknown>>();
+
+  const track = (key: string, write: Promise<void>) => {
+    const settled = write.catch(() => {});
+    pending.set(key, settled);
+    settled.then(() => {
+      if (pending.get(key) === settled) pending.delete(key);
+    });
+    return write;
+  };
+
+  const enqueue = (key: string, write: () => MaybePromise<void>): MaybePromise<void> => {
+    const previous = pending.get(key);
+    if (!previous) {
+      const result = write();
+      if (!isPromiseLike(result)) return result;
+      return track(key, Promise.resolve(result));
+    }
+    return track(key, previous.then(write));
+  };
+
+  return {
+    get: (key) => {
+      const stored = storage.get(key);
+      if (isPromiseLike<string | null>(stored)) {
+        return Promise.resolve(stored).then((value) => (value === null ? null : pipe(value, decoders)));
+      }
+      return stored === null ? null : pipe(stored, decoders);
+    },
+    set: (key, value) => enqueue(key, () => {
+      const encoded = pipe(value, encoders);
+      return isPromiseLike<string>(encoded)
+        ? Promise.resolve(encoded).then((e) => storage.set(key, e))
+        : storage.set(key, encoded);
+    }),
+    remove: (key) => enqueue(key, () => storage.remove(key)),
+    keys: () => storage.keys(),
+  };
+};
@@ -0,0 +1,31 @@
+import {
+  computed,
+  effectScope,
+  getCurrentScope,
+  isRef,
+  onScopeDispose,
+  reactive,
+  readonly,
+  ref,
+  toRaw,
+  watch,
+} from 'vue';
+
+import type { ReactiveRef, ReactivityAdapter } from './reactivity';
+
+/**
+ * Reactivity adapter backed by Vue, so that record sets and persisted values are
+ * tracked by components, `computed` and `watch` like any other reactive value.
+ */
+export const vueReactivity: ReactivityAdapter = {
+  computed,
+  effectScope,
+  getCurrentScope,
+  isRef: (value): value is ReactiveRef<unknown> => isRef(value),
+  onScopeDispose,
+  reactive: <T extends object>(value: T) => reactive(value) as T,
+  readonly: <T extends object>(value: T) => readonly(value) as Readonly<T>,
+  ref: <T>(value: T) => ref(value) as ReactiveRef<T>,
+  toRaw,
+  watch: (source, callback, options) => watch(source, callback, options),
+};
@@ -52,3 +52,25 @@ export const itemWithComputedToRaw = <T extends IdObj, C>(
 export const isRecordManager = <T extends IdObj>(
   obj: any,
 ): obj is RecordManager<T> => obj.getRaw !== undefined;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object'
+  && value !== null
+  && [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/**
+ * Deep clone a value which may hold reactive proxies at any depth, which
+ * `structuredClone` is unable to clone.
+ * @param value - The value to clone.
+ * @param toRaw - Unwraps the reactive proxies of the reactivity system in use.
+ */
+export const cloneRaw = <V>(value: V, toRaw: <R>(value: R) => R): V => {
+  const raw = toRaw(value);
+  if (Array.isArray(raw)) return raw.map((v) => cloneRaw(v, toRaw)) as V;
+  if (isPlainObject(raw)) {
+    return Object.fromEntries(
+      Object.entries(raw).map(([k, v]) => [k, cloneRaw(v, toRaw)]),
+    ) as V;
+  }
+  return typeof raw === 'object' && raw !== null ? structuredClone(raw) : raw;
+};
@@ -0,0 +1,1274 @@
+/**
+ * Record manager to handle record management for different contexts.
+ * It's main use case is store state management for entities which are
+ * organized by ID.
+ *
+ * There are four key features which can make the lifecycle of your data
+ * management easier:
+ * 1. Entities are reactive items at a more confined depth
+ * 2. Local storage persistence
+ * 3. Management and expression of dynamically computed values for each record
+ *
+ * For initializing a simple record manager which houses any values of
+ * type <T extends IdObj>, simply initialize with
+ * ```
+ * const manager = recordManager()({})
+ * ```
+ *
+ * To persist records to local storage, initialize with
+ * ```
+ * const manager = recordManager({ persist: true, context: 'some-context' })({})
+ * ```
+ *
+ * For each recordManager, you can optionally provide a set of computed
+ * getters which will be used to compute values for each record. These will be exposed
+ * in two ways:
+ * 1. As "computed" values within each record
+ * 2. As getters which can be used to calculate the same values for records or consider
+ *    entities not housed in the given record set.
+ *
+ * In the first approach, all data is managed in a `reactive` object which watches for
+ * changes in the functions provided in the getters.
+ *
+ * @pumposh
+ */
+import type {
+  ByID,
+  GenericComputed,
+  GenericComputedValue,
+  IdObj,
+  IndexKey,
+  Query,
+} from './recordManager.model';
+import {
+  type ChildPath,
+  objectMap as _objectMap,
+  isNullish,
+  nullishFilter,
+  objectFilter,
+  objectKeys,
+} from './ext';
+
+import { isEqual } from './ext/diff';
+import { registerInspectable } from './ext/inspection';
+import { type EvictionContext, type Migrations, createPersistence } from './ext/persistence.core';
+import type { ReactivityAdapter } from './ext/reactivity';
+import { deserialize, serialize as serializeValue } from './ext/serializers';
+import {
+  setNestedChildOnRecord,
+} from './ext/nest';
+import {
+  cloneRaw,
+  isItemWithComputed,
+  itemWithComputedToRaw,
+} from './helpers';
+import { createRecordEvents } from './recordManager.events';
+import { applyRecordDiff, createRecordHistory } from './recordManager.history';
+import { createRecordIndexes } from './recordManager.indexes';
+import { createRecordInspectable } from './recordManager.inspect';
+import { createLazyComputeds } from './recordManager.lazy';
+import { createOptimisticUpdates } from './recordManager.optimistic';
+import { createRecordRelations } from './recordManager.relations';
+import { createRecordValidation } from './recordManager.validation';
+import { createRecordRemote } from './recordManager.remote';
+import { matchesWhere, paginate, sortRecords } from './recordManager.query';
+import type {
+  GenericGetters,
+  ManagerOptions,
+  MaybeWithComputed,
+  Meta,
+  PersistenceMeta,
+  RecordSetSnapshot,
+  Relations,
+  TargetOrID,
+  WithComputed,
+  WithRelated,
+} from './recordManager.model';
+
+/** Type assertion is safe but support should be also added to @caresend/utils */
+const objectMap = _objectMap as unknown as <T, O>(
+  obj: T,
+  fn: (v: T[keyof T], key: keyof T) => O,
+  keyFn?: (key: keyof T) => string,
+) => Record<keyof T, O>;
+
+/**
+ * Default time to live for a persistent record in milliseconds.
+ * 1 week
+ */
+const DEFAULT_TTL = 1000 * 60 * 60 * 24 * 7;
+
+/**
+ * Share of the persisted record set freed at a time when the storage backend runs
+ * out of space, since how much space is needed is then unknown
+ */
+const EVICTION_RATIO = 0.1;
+
+/** Longest delay supported by `setTimeout` */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/** Value held by a record within one of the record sets, or its absence */
+interface Snapshot<V> {
+  present: boolean;
+  value?: V;
+}
+
+interface RecordSnapshot<T extends IdObj, C> {
+  raw: Snapshot<T | null>;
+  withComputed: Snapshot<WithComputed<T, C> | null>;
+  cache: Snapshot<PersistenceMeta | null>;
+}
+
+const snapshotOf = <V>(record: ByID<V>, id: string): Snapshot<V> => ({
+  present: id in record,
+  value: record[id],
+});
+
+const restoreSnapshot = <V>(record: ByID<V>, id: string, snapshot: Snapshot<V>) => {
+  if (snapshot.present) {
+    record[id] = snapshot.value as V;
+    return;
+  }
+  delete record[id];
+};
+
+/**
+ * Lift record migrations to migrations of a persisted record set, so that
+ * records which fail to migrate are dropped without dropping the others.
+ */
+const toRecordSetMigrations = (migrations: Migrations = {}): Migrations => objectMap(
+  migrations,
+  (migration) => (records: ByID<MaybeWithComputed<IdObj, unknown> | null>) => objectFilter(
+    objectMap(records, (record, id) => {
+      const raw = itemWithComputedToRaw(record as WithComputed<IdObj, unknown> | null);
+      if (isNullish(raw)) return null;
+      try {
+        const migrated = migration(raw) as IdObj | null | undefined;
+        if (isNullish(migrated)) return null;
+        return { ...migrated, computed: record?.computed };
+      } catch (e) {
+        console.error(`Dropping persisted record ${String(id)} which failed to migrate`, e);
+        return null;
+      }
+    }),
+    nullishFilter,
+  ),
+);
+
+interface InitialState<T extends IdObj> {
+  initial?: {
+    [id: string]: T | null;
+  }
+}
+
+/**
+ * Create the record manager for a reactivity system, see `recordManager` for Vue.
+ *
+ * ex.
+ * ```
+ * const recordManager = createRecordManager(signals);
+ * const manager = recordManager<User>({ context: 'users' })({});
+ * ```
+ *
+ * The record manager is a utility for managing records in a reactive store.
+ * It provides methods for getting, setting, and unsetting records, and
+ * getting and setting child records.
+ *
+ * @param reactivity - The reactivity system records are stored and watched with.
+ * @param meta - The metadata for database synchronization.
+ * @param computedGetters - A set of custom functions which will be used to compute
+ * values for each record automatically and cached within the record manager.
+ * @param getters - A set of custom functions to compute values for each record.
+ * @param options - Additional options for the record set, such as secondary indexes.
+ * @returns The record manager.
+ */
+export const createRecordManager = (reactivity: ReactivityAdapter) => <T extends IdObj>(
+  meta?: Meta & InitialState<T>,
+) => {
+  type Getters<G> = GenericGetters<G, T>;
+
+  const {
+    computed,
+    effectScope,
+    getCurrentScope,
+    onScopeDispose,
+    reactive,
+    readonly,
+    ref,
+    toRaw,
+    watch,
+  } = reactivity;
+  const ls = createPersistence(reactivity);
+
+  return <C extends object, G extends object, I extends object = {}, L extends Relations = {}>(
+    computedGetters: Getters<C>,
+    getters?: Getters<G>,
+    options?: ManagerOptions<T, C, I, L>,
+  ) => {
+    /**
+     * Scope of the watchers of the record set, detached so that watchers created
+     * while a component renders are not stopped along with that component
+     */
+    const scope = effectScope(true);
+
+    /**
+     * Whether the manager has been built. Persisted records over quota on load are
+     * only evicted once it has, since eviction relies on the whole manager.
+     */
+    let isReady = false;
+    let onReady = () => {};
+    const ready = new Promise<void>((resolve) => {
+      onReady = resolve;
+    });
+
+    /** Records set since the record set was last persisted, not evicted to make room for themselves */
+    const unpersisted = new Set<string>();
+
+    /**
+     * Free up space in storage, see `PersistOptions.evict`. Expired records are
+     * removed first, then records by the eviction policy until enough space is
+     * freed, as estimated from each record's share of the serialized record set.
+     * Nothing is evicted if the records not being written cannot make it fit.
+     */
+    const evictPersisted = (context: EvictionContext): boolean | Promise<boolean> => {
+      if (!isReady) return ready.then(() => evictPersisted(context));
+      if (cleanUpCache() > 0) return true;
+
+      const ids = presentIds();
+      const sizes = new Map(ids.map((id) => [
+        id,
+        serializeValue(toRaw(recordWithComputeds[id])).length,
+      ]));
+      const total = ids.reduce((acc, id) => acc + sizes.get(id)!, 0);
+      const needed = (context.excess ?? context.size * EVICTION_RATIO) * (total / context.size);
+
+      const evicted: string[] = [];
+      let freed = 0;
+      for (const id of byEvictionOrder(ids.filter((id) => !unpersisted.has(id)))) {
+        if (freed >= needed) break;
+        evicted.push(id);
+        freed += sizes.get(id)!;
+      }
+      if (!isNullish(context.excess) && freed < needed) return false;
+      return evictRecords(evicted);
+    };
+
+    /** Initialize the record of items with computed values */
+    const recordWithComputeds = meta?.persist
+      ? ls.reactive<ByID<WithComputed<T, C> | null>>(meta.context, {}, {
+        migrations: toRecordSetMigrations(meta.migrations),
+        storage: meta.storage,
+        transforms: meta.transforms,
+        sync: meta.sync && {
+          ...(typeof meta.sync === 'object' ? meta.sync : {}),
+          onMerge: (ids) => applySyncedRecords(ids),
+        },
+        version: meta.version,
+        evict: (context) => evictPersisted(context),
+        maxSize: meta.eviction?.maxSize,
+        onQuotaExceeded: meta.eviction?.onQuotaExceeded,
+        onPersisted: () => unpersisted.clear(),
+      })
+      : reactive<ByID<WithComputed<T, C> | null>>({});
+
+    /** Initialize the record of items without computed values */
+    const recordRaw = reactive<ByID<T | null>>(meta?.initial ?? {});
+    const recordRawGetter = (id: string): T | null => recordRaw[id] ?? null;
+
+    /** Secondary indexes, kept up to date whenever a record or its computed values change */
+    const indexes = createRecordIndexes<T, C, I>(
+      options?.indexes,
+      (id) => (isNullish(recordRaw[id]) ? null : recordWithComputeds[id] ?? null),
+      reactivity,
+    );
+
+    /** Records of other managers related to each record, exposed as `related` */
+    const relations = createRecordRelations<T>(options?.relations, recordRawGetter, reactivity);
+
+    /** Computed values computed once read rather than watched, if lazy */
+    const lazyComputeds = options?.lazyComputeds
+      ? createLazyComputeds<T, C>(computedGetters, recordRawGetter, reactivity)
+      : null;
+
+    /** Expose related records, and lazy computed values, on a record */
+    const attachDerived = (id: string, item: object) => {
+      relations.attach(id, item);
+      lazyComputeds?.attach(id, item);
+    };
+
+    /** Validation of records as they are set or revived, with the issues of invalid records */
+    const validation = createRecordValidation(meta?.validate, meta?.onInvalid, reactivity);
+
+    /** Change events, dispatched once the transaction a change was made in commits */
+    const events = createRecordEvents<T>();
+
+    /**
+     * Journals of the values each record held before it was first changed within
+     * the transaction in progress, one per level of nesting.
+     */
+    const transactions: Map<string, RecordSnapshot<T, C>>[] = [];
+
+    /** Records set within a transaction whose computed getters are yet to be watched */
+    const pendingComputeds = new Set<string>();
+
+    const isInTransaction = () => transactions.length > 0;
+
+    /** Journal the current values of a record before it is changed within a transaction */
+    const journal = (id: string) => {
+      const current = transactions[transactions.length - 1];
+      if (!current || current.has(id)) return;
+      current.set(id, {
+        raw: snapshotOf(recordRaw, id),
+        withComputed: snapshotOf(recordWithComputeds, id),
+        cache: snapshotOf(cacheMeta, id),
+      });
+    };
+
+    /**
+     * Write a record to the record sets along with its default computed values
+     */
+    const writeRecordItem = (
+      id: string,
+      value: MaybeWithComputed<T, C> | null,
+      ttl?: number,
+    ) => {
+      if (value === null) {
+        recordWithComputeds[id] = null;
+        recordRaw[id] = null;
+        indexes.reindex(id);
+        return;
+      }
+
+      const raw = isItemWithComputed(value)
+        ? itemWithComputedToRaw(value)
+        : value;
+      recordRaw[id] = raw;
+
+      if (raw === null) {
+        recordWithComputeds[id] = null;
+        indexes.reindex(id);
+        return;
+      }
+
+      const withComputed = {
+        ...raw,
+        computed: lazyComputeds ? {} : initComputeds(id, raw),
+      } as WithComputed<T, C>;
+      attachDerived(id, withComputed);
+      recordWithComputeds[id] = withComputed;
+      indexes.reindex(id);
+      refreshExpiry(id, ttl);
+    };
+
+    /**
+     * Set a record in the store and set with default computed values
+     */
+    const setRecordItem = (
+      id: string,
+      value: MaybeWithComputed<T, C> | null,
+      ttl?: number,
+    ) => {
+      const prev = recordRaw[id];
+      journal(id);
+      writeRecordItem(id, value, ttl);
+      if (!isNullish(recordRaw[id])) {
+        accessedAt.set(id, Date.now());
+        if (meta?.persist) unpersisted.add(id);
+      }
+      history.record(id, prev, recordRaw[id]);
+      events.emitChange(id, prev, recordRaw[id]);
+    };
+
+    /** If computed records have persisted, ensure raw records are updated */
+    const syncPersistedRecords = () => {
+      objectMap(recordWithComputeds, (item, id) => {
+        const stored = itemWithComputedToRaw(item);
+        /** Records corrupted in storage are dropped before anything computes from them */
+        const raw = isNullish(stored) ? stored : validation.check(id, stored, true);
+        if (isNullish(raw) && !isNullish(stored)) {
+          delete recordWithComputeds[id];
+          delete recordRaw[id];
+          delete cacheMeta[id];
+          return;
+        }
+        if (!isNullish(raw) && !isEqual(raw, stored)) {
+          recordWithComputeds[id] = { ...raw, computed: item?.computed } as WithComputed<T, C>;
+        }
+        if (!isNullish(recordWithComputeds[id])) attachDerived(id, recordWithComputeds[id]!);
+        const existing = recordRaw[id];
+        if (isEqual(raw, existing)) return;
+        recordRaw[id] = raw;
+      });
+
+      /** Index any records which have been restored from persistence */
+      Object.keys(recordWithComputeds).forEach((id) => indexes.reindex(id));
+    };
+
+    /**
+     * Initialize an object of cache metadata organized by recordID for when utilizing persistence.
+     * This will manage clean up records which have passed their expiration date.
+     */
+    const cacheMeta = meta?.persist
+      ? ls.reactive<ByID<PersistenceMeta | null>>(
+        `${meta.context}[cache-meta]`,
+        {},
+        {
+          onQuotaExceeded: meta.eviction?.onQuotaExceeded,
+          storage: meta.storage,
+          sync: meta.sync,
+          transforms: meta.transforms,
+        },
+      )
+      : reactive<ByID<PersistenceMeta | null>>({});
+
+    /** Timer of the next scheduled expiry, and when it is due */
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    let nextExpiry = Infinity;
+
+    /**
+     * Make sure records are expired at the given time while the app runs. Only
+     * the earliest expiry is scheduled, the next is scheduled once it has run.
+     */
+    const scheduleExpiry = (expires: number) => {
+      if (!meta?.scheduleExpiry || !scope.active || expires >= nextExpiry) return;
+      if (expiryTimer) clearTimeout(expiryTimer);
+      nextExpiry = expires;
+      expiryTimer = setTimeout(() => {
+        expiryTimer = null;
+        nextExpiry = Infinity;
+        cleanUpCache();
+        scheduleNextExpiry();
+      }, Math.min(Math.max(expires - Date.now(), 0), MAX_TIMEOUT));
+    };
+
+    /** Schedule the earliest expiry of the record set, e.g. of records restored from storage */
+    const scheduleNextExpiry = () => {
+      const expiries = Object.values(cacheMeta)
+        .map((recordCacheMeta) => recordCacheMeta?.expires)
+        .filter(nullishFilter);
+      if (expiries.length > 0) scheduleExpiry(Math.min(...expiries));
+    };
+
+    /**
+     * Push back the expiry of a record by its time to live. Records expire if the
+     * record set is persisted or has a TTL, or if the record has a TTL of its own.
+     * @param id - The id of the record.
+     * @param ttl - A TTL for this record, overriding that of the record set from now on.
+     */
+    const refreshExpiry = (id: string, ttl?: number) => {
+      const recordTtl = ttl ?? cacheMeta[id]?.ttl;
+      if (isNullish(recordTtl) && !meta?.persist && !meta?.ttl) return;
+      const expires = Date.now() + (recordTtl ?? (meta?.ttl || DEFAULT_TTL));
+      cacheMeta[id] = {
+        ...cacheMeta[id],
+        expires,
+        ...(isNullish(recordTtl) ? {} : { ttl: recordTtl }),
+      };
+      scheduleExpiry(expires);
+    };
+
+    /** Remove a record which has passed its expiration date */
+    const expireRecord = (id: string) => {
+      const prev = recordRaw[id];
+      delete recordRaw[id];
+      delete recordWithComputeds[id];
+      delete cacheMeta[id];
+      recordRaw[id] = null;
+      recordWithComputeds[id] = null;
+      cacheMeta[id] = null;
+      accessedAt.delete(id);
+      lazyComputeds?.clear(id);
+      unwatchComputedGetters(id);
+      indexes.reindex(id);
+      events.emitExpired(id, prev);
+    };
+
+    const isExpired = (id: string) => (cacheMeta[id]?.expires ?? Infinity) < Date.now();
+
+    /**
+     * Clean up the cache meta object to remove expired records. Runs on initialization,
+     * and whenever an expiry is due if expiry is scheduled.
+     * @returns The number of records removed.
+     */
+    const cleanUpCache = () => {
+      const expired = Object.keys(cacheMeta).filter(isExpired);
+      expired.forEach(expireRecord);
+      return expired.length;
+    };
+
+    /** Last time each record was set or read, to evict the least recently used first */
+    const accessedAt = new Map<string, number>();
+
+    /** Track a read of a record, extending its life if expiration is sliding */
+    const touchRecord = (id: string) => {
+      accessedAt.set(id, Date.now());
+      if (meta?.slidingTtl && cacheMeta[id]) refreshExpiry(id);
+    };
+
+    /** Ids of the records currently set */
+    const presentIds = () => Object.keys(recordRaw).filter((id) => !isNullish(recordRaw[id]));
+
+    /** Sort records according to the eviction policy, those to evict first first */
+    const byEvictionOrder = (ids: string[]) => {
+      const ttl = meta?.ttl || DEFAULT_TTL;
+      const rank = (id: string) => {
+        const expires = cacheMeta[id]?.expires ?? 0;
+        if (meta?.eviction?.policy === 'expires') return expires;
+        /** Records restored from persistence were last accessed when last set */
+        return accessedAt.get(id) ?? expires - ttl;
+      };
+      return [...ids].sort((a, b) => rank(a) - rank(b));
+    };
+
+    /**
+     * Evict records, see `byEvictionOrder` for which to evict.
+     * @param ids - The ids of the records to evict.
+     * @returns Whether any record was evicted.
+     */
+    const evictRecords = (ids: string[]): boolean => {
+      if (ids.length === 0) return false;
+      manager.transaction(() => {
+        ids.forEach(unsetRecord);
+      });
+      return true;
+    };
+
+    /** Asynchronous storage backends restore persisted records once loaded */
+    const persistedLoading = [
+      ls.loading(recordWithComputeds),
+      ls.loading(cacheMeta),
+    ].filter(nullishFilter);
+
+    if (persistedLoading.length > 0) {
+      Promise.all(persistedLoading).then(() => {
+        syncPersistedRecords();
+        cleanUpCache();
+        scheduleNextExpiry();
+      });
+    } else {
+      syncPersistedRecords();
+      cleanUpCache();
+      scheduleNextExpiry();
+    }
+
+    const watches = new Map<string, Partial<Record<keyof C, () => void>>>();
+
+    /** Watch for changes in the computed values for a record */
+    const watchGetter = (id: string, k: keyof C) => {
+      const result = ref<any>(null);
+
+      const existingWatcher = watches.get(id)?.[k];
+      if (existingWatcher) {
+        result.value = recordWithComputeds[id]?.computed?.[k];
+        return result;
+      }
+
+      /** Computed values are no longer kept up to date once disposed */
+      if (!scope.active) return result;
+
+      const watchFn = scope.run(() => watch(() => computedGetters[k]?.(recordRawGetter)(id), (newVal, _oldVal) => {
+        const oldVal = recordWithComputeds[id]?.computed?.[k];
+
+        if (isEqual(oldVal, newVal)) return;
+
+        result.value = newVal;
+        const withComputed = {
+          ...recordWithComputeds[id],
+          computed: {
+            ...recordWithComputeds[id]?.computed,
+            [k]: newVal,
+          },
+        } as WithComputed<T, C>;
+        attachDerived(id, withComputed);
+        recordWithComputeds[id] = withComputed;
+        indexes.reindex(id);
+      }, { deep: true, immediate: true }))!;
+      watches.set(id, {
+        ...watches.get(id),
+        [k]: watchFn,
+      });
+
+      return result;
+    };
+
+    /** Initialize the computed values for each record */
+    const initComputeds = (id: string, item: T | null) =>
+      objectMap(
+        computedGetters,
+        (fn, fnName) => {
+          if (isNullish(item)) return null;
+          /** Watchers are deferred until the transaction in progress commits */
+          if (!watches.get(id)?.[fnName] && isInTransaction()) {
+            return recordWithComputeds[id]?.computed?.[fnName] ?? null;
+          }
+          if (!watches.get(id)?.[fnName]) return watchGetter(id, fnName).value;
+          if (watches.get(id)?.[fnName]) return recordWithComputeds[id]?.computed?.[fnName];
+          return fn(recordRawGetter)(id);
+        }
+      );
+
+    /**
+     * If a computed getter is called with no extraneous arguments, return the value
+     * last computed for this record.
+     */
+    const cacheMappedComputedGetters = objectMap(
+      computedGetters,
+      (fn, name) => (
+        maybeID: TargetOrID<T>,
+        ...args: any[]
+      ) => {
+        if (isNullish(maybeID)) return fn(recordRawGetter)(maybeID, ...args);
+        const id = typeof maybeID === 'string' ? maybeID : maybeID.id;
+        if (lazyComputeds) {
+          return args.length === 0 ? lazyComputeds.read(id, name) : fn(recordRawGetter)(id, ...args);
+        }
+        const watcher = watches.get(id)?.[name];
+        let cached = recordWithComputeds[id]?.computed?.[name];
+        if (!watcher) {
+          const result = watchGetter(id, name);
+          cached = result.value ?? cached;
+        }
+        if (args.length === 0 && cached) return cached;
+        const computed = fn(recordRawGetter)(id, ...args);
+        return computed;
+      },
+    ) as GenericComputedValue<C, T>;
+
+    const watchComputedGetters = (id: string) => {
+      if (lazyComputeds) return;
+      objectKeys(computedGetters).map((k) => {
+        watchGetter(id, k);
+      });
+    };
+
+    /** Stop watching the computed getters of a record, e.g. once it is removed */
+    const unwatchComputedGetters = (id: string) => {
+      Object.values(watches.get(id) ?? {}).forEach((stop) => (stop as () => void)());
+      watches.delete(id);
+    };
+
+    /** Set a record in the store and initialize the computed values if applicable */
+    const setAndWatchGetters = (
+      id: string,
+      item: MaybeWithComputed<T, C> | null,
+      ttl?: number,
+    ) => {
+      const isCurrentlyWatching = watches.has(id);
+      const isWatched = !lazyComputeds && Object.keys(computedGetters).length > 0;
+      if (!isWatched || isNullish(item) || isCurrentlyWatching) {
+        setRecordItem(id, item, ttl);
+        return;
+      }
+
+      if (isInTransaction()) {
+        setRecordItem(id, item, ttl);
+        pendingComputeds.add(id);
+        return;
+      }
+
+      /** Initialize the computed values for the record */
+      const itemComputed = initComputeds(id, item);
+
+      /**
+       * If the computed values are the same as the last computed values,
+       * set and skip initialization of computed values.
+       */
+      if (isEqual(itemComputed, recordWithComputeds[id]?.computed)) {
+        setRecordItem(id, item, ttl);
+        return;
+      }
+
+      setRecordItem(id, {
+        ...item,
+        computed: itemComputed,
+      }, ttl);
+
+      watchComputedGetters(id);
+    };
+
+    /** Restore every record changed within the innermost transaction */
+    const rollbackTransaction = () => {
+      const current = transactions.pop();
+      current?.forEach((snapshot, id) => {
+        restoreSnapshot(recordRaw, id, snapshot.raw);
+        restoreSnapshot(recordWithComputeds, id, snapshot.withComputed);
+        restoreSnapshot(cacheMeta, id, snapshot.cache);
+        indexes.reindex(id);
+      });
+      if (!isInTransaction()) pendingComputeds.clear();
+
+      /** Records unset within the transaction stopped being watched */
+      current?.forEach((_, id) => {
+        if (isNullish(recordRaw[id]) || watches.has(id)) return;
+        if (isInTransaction()) {
+          pendingComputeds.add(id);
+        } else {
+          watchComputedGetters(id);
+        }
+      });
+    };
+
+    /**
+     * Commit the innermost transaction. Nested transactions hand their journal to
+     * the enclosing one, the outermost starts watching the computed getters of
+     * every record set along the way.
+     */
+    const commitTransaction = () => {
+      const current = transactions.pop();
+      const parent = transactions[transactions.length - 1];
+      if (parent) {
+        current?.forEach((snapshot, id) => {
+          if (!parent.has(id)) parent.set(id, snapshot);
+        });
+        return;
+      }
+      const ids = Array.from(pendingComputeds);
+      pendingComputeds.clear();
+      ids.forEach((id) => {
+        if (isNullish(recordRaw[id]) || watches.has(id)) return;
+        watchComputedGetters(id);
+      });
+    };
+
+    /**
+     * Remove a record from the record sets. Unset rules of relations are only
+     * applied by `unset`, not when records are reset, evicted, synced or replayed.
+     */
+    const unsetRecord = (id: string) => {
+      const prev = recordRaw[id];
+      journal(id);
+      recordWithComputeds[id] = null;
+      recordRaw[id] = null;
+      cacheMeta[id] = null;
+      delete recordWithComputeds[id];
+      delete recordRaw[id];
+      delete cacheMeta[id];
+      accessedAt.delete(id);
+      validation.clear(id);
+      lazyComputeds?.clear(id);
+      unwatchComputedGetters(id);
+      indexes.reindex(id);
+      history.record(id, prev, null);
+      events.emitChange(id, prev, null);
+    };
+
+    /**
+     * Bring raw records, computed values and indexes up to date with records
+     * merged into the persisted record set from another tab.
+     */
+    const applySyncedRecords = (ids: string[]) => {
+      manager.transaction(() => {
+        ids.forEach((id) => {
+          const stored = itemWithComputedToRaw(recordWithComputeds[id] ?? null);
+          const raw = isNullish(stored) ? null : validation.check(id, stored, true);
+          if (isNullish(raw)) {
+            if (!isNullish(recordRaw[id]) || !isNullish(stored)) unsetRecord(id);
+            return;
+          }
+          if (isEqual(raw, recordRaw[id])) {
+            attachDerived(id, recordWithComputeds[id]!);
+            return;
+          }
+          setAndWatchGetters(id, raw);
+        });
+      });
+    };
+
+    /** Undo and redo stacks, recording changes only when enabled in the options */
+    const history = createRecordHistory(options?.history, (changes, side) => {
+      manager.transaction(() => {
+        changes.forEach((change) => {
+          const isPresent = side === 'prev' ? change.existed : change.exists;
+          if (!isPresent) {
+            unsetRecord(change.id);
+            return;
+          }
+          const current = (recordRaw[change.id] ?? { id: change.id }) as T;
+          setAndWatchGetters(change.id, applyRecordDiff(current, change.diff, side));
+        });
+      });
+    }, reactivity);
+
+    /** Remote backend, records it returns are marked as fetched in the cache meta */
+    const remote = createRecordRemote<T, WithComputed<T, C>>(options?.remote, {
+      fetchedAt: (id) => cacheMeta[id]?.fetchedAt,
+      fetchedIds: () => Object.keys(cacheMeta).filter((id) => !isNullish(cacheMeta[id]?.fetchedAt)),
+      get: (id): WithComputed<T, C> | null => manager.get(id),
+      receive: (items, removed = []) => {
+        manager.transaction(() => {
+          removed.forEach((id) => {
+            if (id in recordRaw || id in cacheMeta) unsetRecord(id);
+          });
+          items.forEach((item) => {
+            manager.set(item);
+            cacheMeta[item.id] = { ...cacheMeta[item.id], fetchedAt: Date.now() };
+          });
+        });
+      },
+    }, reactivity);
+
+    /** Changes applied ahead of their confirmation, reverted on their own if rejected */
+    const optimistic = createOptimisticUpdates<T>({
+      get: (id): T | null => manager.getRawClone(id),
+      set: (item) => manager.set(item),
+      unset: (id) => manager.unset(id),
+    }, reactivity);
+
+    if (meta?.initial) {
+      Object.entries(meta.initial).forEach(([id, item]) => {
+        setAndWatchGetters(id, item);
+      });
+    }
+
+    /** Set up the manager object for external use */
+    const manager = {
+      forEach: (callback: (item: T) => void) => {
+        Object.values(recordWithComputeds).forEach((item) => {
+          if (isNullish(item)) return;
+          callback(item);
+        });
+      },
+
+      /**
+       * Filter the record set with computed values.
+       * @param filter - The filter function to apply to the record set.
+       * @returns The filtered record set.
+       */
+      filter: (filter: (item: WithComputed<T, C>) => boolean) =>
+        objectFilter(recordWithComputeds, (item) => !isNullish(item) && filter(item)),
+
+      /**
+       * Filter the record set raw, i.e. without computed values.
+       * @param filter - The filter function to apply to the record set.
+       * @returns The filtered record set.
+       */
+      filterRaw: (filter: (item: T | null) => boolean) =>
+        objectFilter(recordRaw, filter),
+
+      /**
+       * Get all records indexed under a key of a secondary index. Reactive when
+       * read within a `computed` or `watch`, without scanning the record set.
+       * @param name - The name of the index declared in the options.
+       * @param key - The key to look up.
+       * @returns The matching record set with computed values.
+       */
+      byIndex: (name: keyof I, key: IndexKey) =>
+        Object.fromEntries(
+          indexes.lookup(name, key)
+            .map((id) => [id, recordWithComputeds[id]])
+            .filter(([, item]) => !isNullish(item)),
+        ) as ByID<WithComputed<T, C>>,
+
+      /**
+       * Query the record set with computed values. The result is live, updating
+       * whenever a record it depends on changes. Pass a function to make the query
+       * itself reactive, e.g. to page through results.
+       * @param query - The conditions, ordering and pagination of the query.
+       * @returns The matching page of records and the total number of matches.
+       */
+      query: (query: Query<T, C, I> | (() => Query<T, C, I>)) => {
+        const resolve = () => (typeof query === 'function' ? query() : query);
+
+        const matches = computed(() => {
+          const { index, where } = resolve();
+          const items = index
+            ? indexes.lookup(index.name, index.key).map((id) => recordWithComputeds[id])
+            : Object.values(recordWithComputeds);
+          return items
+            .filter(nullishFilter)
+            .filter((item) => matchesWhere(item, where));
+        });
+
+        const sorted = computed(() => sortRecords(matches.value, resolve().orderBy));
+
+        return {
+          items: computed(() => {
+            const { offset, limit } = resolve();
+            return paginate(sorted.value, offset, limit);
+          }),
+          total: computed(() => matches.value.length),
+        };
+      },
+
+      /**
+       * Get every key currently present in a secondary index.
+       * @param name - The name of the index declared in the options.
+       */
+      indexKeys: (name: keyof I) => indexes.keysOf(name),
+
+      /**
+       * Get a record from the store joined with computed values, and with related
+       * records as `related` if relations are declared.
+       * @param id - The id of the record to get.
+       * @returns The record, or null if it does not exist.
+       */
+      get: (id: string) => {
+        if (isExpired(id)) expireRecord(id);
+        const item = recordWithComputeds[id];
+        if (isNullish(item)) setRecordItem(id, null);
+        if (!isNullish(item)) touchRecord(id);
+        return recordWithComputeds[id] as WithRelated<WithComputed<T, C>, L> | null;
+      },
+
+      /**
+       * Get a record from the store raw, i.e. without computed values.
+       * @param id - The id of the record to get, or a filter function to get
+       * records that match the filter.
+       * @returns The record, or null if it does not exist.
+       */
+      getRaw: (id: string) => {
+        if (isExpired(id)) expireRecord(id);
+        const item = recordRaw[id];
+        if (isNullish(item)) setRecordItem(id, null);
+        if (!isNullish(item)) touchRecord(id);
+        return recordRaw[id] as T | null;
+      },
+
+      /**
+       * Get a raw clone of a record.
+       * @param id - The id of the record to get.
+       * @returns The raw clone of the record, or null if it does not exist.
+       */
+      getRawClone: (id: string) => {
+        const item = recordRaw[id];
+        return isNullish(item) ? null : cloneRaw(item, toRaw);
+      },
+
+      /**
+       * Get a child of a record from the store.
+       * @param id - The id of the record to get the child from.
+       * @param key - The key of the child record to get.
+       * @returns The child record, or null if it does not exist.
+       */
+      getChildOf: <K extends keyof T>(id: string, key: K): T[K] | undefined =>
+        manager.get(id)?.[key],
+
+      getters: {
+        ...cacheMappedComputedGetters,
+        ...getters,
+      } as GenericComputed<C, T> & Getters<G>,
+
+      /**
+       * Get length of the record set.
+       * @returns The length of the record set.
+       */
+      length: computed(
+        () => Object.values(recordWithComputeds).filter(nullishFilter).length,
+      ),
+
+      /**
+       * The record set with computed values, by id, e.g. to expose it as the state
+       * of a store. Read only, records are changed through the manager. Records
+       * which have been removed may be left as null.
+       */
+      records: readonly(recordWithComputeds) as Readonly<ByID<WithComputed<T, C> | null>>,
+
+      /**
+       * Log the record set.
+       */
+      log: () => {
+        console.table(objectMap(recordWithComputeds, (r) => r));
+        console.table(objectMap(recordRaw, (r) => r));
+      },
+
+      /**
+       * Overwrite the entire record set.
+       * @param items - The new records to set.
+       */
+      overwrite: (items: ByID<T>) => {
+        manager.transaction(() => {
+          manager.reset();
+          manager.update(items);
+        });
+      },
+
+      /**
+       * Set a record in the store, once validated if a validator is given.
+       * @param item - The record to set.
+       * @param options.ttl - Time to live of this record in milliseconds, overriding
+       * that of the record set until set with another.
+       * @throws {RecordValidationError} If the record is invalid and invalid records are thrown on.
+       */
+      set: (_item: T, options?: { ttl?: number }) => {
+        /** If at runtime, the item may have computed values which we want to ignore */
+        const item = isItemWithComputed(_item) ? itemWithComputedToRaw(_item) : _item;
+
+        if (isNullish(item)) return;
+
+        const valid = validation.check(item.id, item);
+        if (isNullish(valid)) return;
+
+        setAndWatchGetters(item.id, valid, options?.ttl);
+      },
+
+      /**
+       * Set a child item of a record in the store.
+       * @param id - The id of the record to set the child on.
+       * @param key - The key of the child record to set.
+       * @param value - The value of the child record to set.
+       */
+      setChildOf: <K extends ChildPath<T>>(
+        id: string,
+        key: K,
+        value: K extends keyof T ? T[K] : any,
+      ) => {
+        /** Determine if the key can directly be indexed on the record */
+        const keyIsDirectKey = (k: K | keyof T): k is keyof T =>
+          !String(k)?.includes('/');
+
+        if (!recordWithComputeds[id]) return;
+
+        let explicit = itemWithComputedToRaw<T, C>(recordWithComputeds[id]!);
+
+        if (keyIsDirectKey(key) && explicit) {
+          explicit[key] = value;
+        } else if (explicit) {
+          explicit = setNestedChildOnRecord(explicit, key, value);
+        }
+
+        if (explicit) manager.set(explicit);
+      },
+
+      /**
+       * Unset a record from the store, applying the unset rules of its relations.
+       * @param id - The id of the record to unset.
+       * @throws If a relation restricts unsetting a record which has related records.
+       */
+      unset: (id: string) => {
+        relations.applyUnsetRules(id);
+        unsetRecord(id);
+      },
+
+      /**
+       * Serialize the record set, along with its computed values and cache meta,
+       * e.g. to render it on the server and hydrate it on the client.
+       * @returns The snapshot as a string, see `hydrate`.
+       */
+      serialize: () => serializeValue({
+        cacheMeta: objectFilter(cacheMeta, nullishFilter),
+        records: objectFilter(recordWithComputeds, nullishFilter),
+      } satisfies RecordSetSnapshot<T>),
+
+      /**
+       * Restore records from a snapshot made by `serialize`, replacing those with
+       * the same id. Computed values are restored as they were serialized, rather
+       * than computed, and only recomputed once read through the getters or once
+       * their record changes. Records are validated as when revived from storage.
+       * @param snapshot - The snapshot, as serialized or parsed.
+       */
+      hydrate: (snapshot: string | RecordSetSnapshot<T>) => {
+        const { records, cacheMeta: snapshotCacheMeta } = typeof snapshot === 'string'
+          ? deserialize(snapshot) as RecordSetSnapshot<T>
+          : snapshot;
+
+        Object.entries(records).forEach(([id, item]) => {
+          const stored = itemWithComputedToRaw(item as WithComputed<T, C>);
+          const raw = isNullish(stored) ? null : validation.check(id, stored, true);
+          if (isNullish(raw)) return;
+
+          const withComputed = { ...raw, computed: item.computed ?? {} } as WithComputed<T, C>;
+          attachDerived(id, withComputed);
+          recordRaw[id] = raw;
+          recordWithComputeds[id] = withComputed;
+          if (snapshotCacheMeta[id]) cacheMeta[id] = snapshotCacheMeta[id];
+          indexes.reindex(id);
+        });
+        cleanUpCache();
+      },
+
+      /**
+       * Reset the entire record set.
+       */
+      reset: () => {
+        manager.transaction(() => {
+          Object.keys(recordWithComputeds).forEach(unsetRecord);
+          events.emitReset();
+        });
+
+        if (meta?.persist) {
+          ls.remove(meta.context, { storage: meta.storage, transforms: meta.transforms });
+        }
+      },
+
+      /**
+       * Stop every watcher of the record set: computed getters, persistence, tab
+       * sync, scheduled expiry and the remote subscription. Records can still be
+       * read and set, but computed values and storage are no longer kept up to date.
+       */
+      dispose: () => {
+        scope.stop();
+        watches.clear();
+        if (expiryTimer) clearTimeout(expiryTimer);
+        expiryTimer = null;
+        remote.disconnect();
+        unregisterInspectable();
+        if (meta?.persist) {
+          ls.stop(recordWithComputeds);
+          ls.stop(cacheMeta);
+        }
+      },
+
+      resetComputed: () => {
+        Object.keys(recordWithComputeds).forEach((id) => {
+          watchComputedGetters(id);
+        });
+      },
+
+      /**
+       * Run a set of changes as a single transaction. Computed getters of new records
+       * are only watched once the transaction commits, and since watchers and
+       * persistence are flushed after synchronous code, each runs once for the whole
+       * transaction. If the callback throws, every record it changed is restored and
+       * the error is rethrown. Transactions may be nested, and with history enabled
+       * the whole transaction is undone as a single step.
+       * @param callback - Synchronous function making the changes.
+       * @returns The return value of the callback.
+       */
+      transaction: <R>(callback: () => R): R => {
+        transactions.push(new Map());
+        history.begin();
+        events.begin();
+        try {
+          const result = callback();
+          commitTransaction();
+          history.commit();
+          events.commit();
+          return result;
+        } catch (e) {
+          rollbackTransaction();
+          history.rollback();
+          events.rollback();
+          throw e;
+        }
+      },
+
+      /**
+       * Listen for records being added, updated, removed or expired, or the record set
+       * being reset. Updates to computed values are not reported.
+       * @param type - The type of change to listen for.
+       * @param handler - Receives the id, previous and next raw record and their diff.
+       * @returns A function to stop listening.
+       */
+      on: events.on,
+
+      /**
+       * Listen for every change to the record set.
+       * @param handler - Receives every event, discriminated by `type`.
+       * @returns A function to stop listening.
+       */
+      onChange: events.onChange,
+
+      /**
+       * Issues of the records which failed validation and were kept or dropped, by id.
+       */
+      errors: validation.errors,
+
+      /**
+       * Apply a change to a record immediately, reverting exactly that change if the
+       * commit rejects. Values changed since by other updates are left as they are.
+       *
+       * ex.
+       * ```
+       * manager.optimistic(id, { name }, api.rename(id, name));
+       * ```
+       * @param id - The id of the record to change.
+       * @param patch - Fields to merge into the record, or a function returning the new record.
+       * @param commit - Settles once the change is confirmed or rejected.
+       * @returns The result of the commit.
+       */
+      optimistic: optimistic.apply,
+
+      /**
+       * Whether a record has optimistic changes which are yet to be confirmed.
+       */
+      isPending: optimistic.isPending,
+
+      /**
+       * Fetch records from and save records to the remote backend given in the
+       * options, keeping loading and error states for the record set and each record.
+       */
+      remote,
+
+      /**
+       * Whether there is a change to undo. Always false unless history is enabled.
+       */
+      canUndo: history.canUndo,
+
+      /**
+       * Whether there is an undone change to redo.
+       */
+      canRedo: history.canRedo,
+
+      /**
+       * Undo the last change, or every change made within the last transaction.
+       */
+      undo: () => history.undo(),
+
+      /**
+       * Redo the last undone change.
+       */
+      redo: () => history.redo(),
+
+      /**
+       * Forget every recorded change.
+       */
+      clearHistory: () => history.clear(),
+
+      /**
+       * Update the record set with new records in a single transaction.
+       * @param items - The new records to update.
+       */
+      update: (items: ByID<T>) => {
+        manager.transaction(() => {
+          Object.values(items).forEach((item) => {
+            manager.set(item);
+          });
+        });
+      },
+    };
+
+    /** Evict records which were persisted over quota, now that they can be */
+    isReady = true;
+    onReady();
+
+    /** Keep the record set within the maximum number of records */
+    const maxRecords = meta?.eviction?.maxRecords;
+    if (maxRecords) {
+      scope.run(() => watch(() => manager.length.value, (length) => {
+        if (length <= maxRecords) return;
+        evictRecords(byEvictionOrder(presentIds()).slice(0, length - maxRecords));
+      }, { immediate: true }));
+    }
+
+    remote.connect();
+
+    /** Expose the record set to developer tools, see `ext/devtools` */
+    const unregisterInspectable = registerInspectable(createRecordInspectable<T>(
+      meta?.context ?? 'recordManager',
+      {
+        accessedAt: (id) => accessedAt.get(id),
+        cacheMeta,
+        computedNames: objectKeys(computedGetters) as string[],
+        computedOf: (id) => recordWithComputeds[id]?.computed ?? null,
+        errors: validation.errors,
+        onChange: events.onChange,
+        raw: recordRaw,
+        summary: () => ({
+          indexes: Object.keys(options?.indexes ?? {}),
+          lazyComputeds: !!lazyComputeds,
+          persisted: !!meta?.persist,
+          records: manager.length.value,
+          watchedRecords: watches.size,
+        }),
+        watchedOf: (id) => objectKeys(watches.get(id) ?? {}) as string[],
+      },
+      reactivity,
+    ));
+
+    /** Dispose the record set along with the scope it is bound to, e.g. its component */
+    const boundScope = options?.bindScope === true ? getCurrentScope() : options?.bindScope || null;
+    boundScope?.run(() => onScopeDispose(manager.dispose));
+
+    return manager;
+  };
+};
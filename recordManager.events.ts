@@ -0,0 +1,160 @@
+import { isNullish } from './ext';
+import { diffObjectsDeep } from './ext/diff';
+import type {
+  IdObj,
+  RecordEvent,
+  RecordEventHandler,
+  RecordEventMap,
+} from './recordManager.model';
+
+type EventHandlers<T extends IdObj> = {
+  [K in keyof RecordEventMap<T>]: Set<RecordEventHandler<RecordEventMap<T>[K]>>;
+};
+
+/**
+ * Dispatch change events for a record set.
+ *
+ * Events emitted between `begin` and `commit` are queued and only dispatched
+ * once the outermost group commits, so listeners never hear about changes
+ * which end up being rolled back.
+ */
+export const createRecordEvents = <T extends IdObj>() => {
+  const handlers: EventHandlers<T> = {
+    added: new Set(),
+    expired: new Set(),
+    removed: new Set(),
+    reset: new Set(),
+    updated: new Set(),
+  };
+  const changeHandlers = new Set<RecordEventHandler<RecordEvent<T>>>();
+
+  /** Number of queued events at the start of each open group */
+  const groups: number[] = [];
+  let queued: RecordEvent<T>[] = [];
+
+  const hasListeners = (type: keyof RecordEventMap<T>) =>
+    handlers[type].size > 0 || changeHandlers.size > 0;
+
+  /** A failing listener should neither break the store nor the other listeners */
+  const call = <E>(handler: RecordEventHandler<E>, event: E) => {
+    try {
+      handler(event);
+    } catch (e) {
+      console.error(`Record event listener failed on "${(event as RecordEvent<T>).type}"`, e);
+    }
+  };
+
+  const dispatch = (event: RecordEvent<T>) => {
+    (handlers[event.type] as Set<RecordEventHandler<RecordEvent<T>>>)
+      .forEach((handler) => call(handler, event));
+    changeHandlers.forEach((handler) => call(handler, event));
+  };
+
+  const emit = (event: RecordEvent<T>) => {
+    if (groups.length > 0) {
+      queued.push(event);
+      return;
+    }
+    dispatch(event);
+  };
+
+  /**
+   * Emit the event matching a change to a record, if any.
+   * @param id - The id of the record.
+   * @param prev - The raw record before the change.
+   * @param next - The raw record after the change.
+   */
+  const emitChange = (id: string, prev: T | null | undefined, next: T | null | undefined) => {
+    const existed = !isNullish(prev);
+    const exists = !isNullish(next);
+    if (!existed && !exists) return;
+
+    const type = existed && exists ? 'updated' : exists ? 'added' : 'removed';
+    if (!hasListeners(type)) return;
+
+    const diff = diffObjectsDeep(prev, next, [], false, {}, 'items');
+    if (type === 'updated' && Object.keys(diff).length === 0) return;
+
+    emit({
+      diff,
+      id,
+      next: next ?? null,
+      prev: prev ?? null,
+      type,
+    });
+  };
+
+  /**
+   * Emit the removal of a record which has passed its expiration date.
+   * @param id - The id of the record.
+   * @param prev - The raw record before it expired.
+   */
+  const emitExpired = (id: string, prev: T | null | undefined) => {
+    if (isNullish(prev) || !hasListeners('expired')) return;
+    emit({
+      diff: diffObjectsDeep(prev, null, [], false, {}, 'items'),
+      id,
+      next: null,
+      prev,
+      type: 'expired',
+    });
+  };
+
+  const emitReset = () => {
+    if (!hasListeners('reset')) return;
+    emit({ type: 'reset' });
+  };
+
+  /**
+   * Listen for an event type.
+   * @returns A function to stop listening.
+   */
+  const on = <K extends keyof RecordEventMap<T>>(
+    type: K,
+    handler: RecordEventHandler<RecordEventMap<T>[K]>,
+  ) => {
+    handlers[type].add(handler);
+    return () => {
+      handlers[type].delete(handler);
+    };
+  };
+
+  /**
+   * Listen for every event.
+   * @returns A function to stop listening.
+   */
+  const onChange = (handler: RecordEventHandler<RecordEvent<T>>) => {
+    changeHandlers.add(handler);
+    return () => {
+      changeHandlers.delete(handler);
+    };
+  };
+
+  const begin = () => {
+    groups.push(queued.length);
+  };
+
+  const commit = () => {
+    groups.pop();
+    if (groups.length > 0) return;
+    const events = queued;
+    queued = [];
+    events.forEach(dispatch);
+  };
+
+  /** Discard the events queued since the innermost `begin` */
+  const rollback = () => {
+    queued.length = groups.pop() ?? 0;
+  };
+
+  return {
+    begin,
+    commit,
+    emitChange,
+    emitExpired,
+    emitReset,
+    on,
+    onChange,
+    rollback,
+  };
+};
@@ -0,0 +1,161 @@
+import { isNullish } from './ext';
+import { diffObjectsDeep } from './ext/diff';
+import { setNestedChildOnRecord, unsetNestedChildOnRecord } from './ext/nest';
+import type { ReactivityAdapter } from './ext/reactivity';
+import type {
+  HistoryOptions,
+  IdObj,
+  RecordChange,
+} from './recordManager.model';
+
+/** Default number of undoable steps kept */
+const DEFAULT_HISTORY_DEPTH = 100;
+
+export type HistorySide = 'prev' | 'next';
+
+/**
+ * Apply one side of a record diff to a record. Paths are applied deepest array
+ * index first so that removed array items are spliced out from the end.
+ *
+ * @param record - The record to apply the diff to.
+ * @param diff - The diff produced by `diffObjectsDeep`.
+ * @param side - Which side of the diff to restore.
+ * @returns The updated record.
+ */
+export const applyRecordDiff = <T extends object>(
+  record: T,
+  diff: RecordChange['diff'],
+  side: HistorySide,
+): T => Object.keys(diff)
+    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))
+    .reduce((acc, path) => {
+      const value = diff[path]?.[side];
+      return value === undefined
+        ? unsetNestedChildOnRecord(acc, path)
+        : setNestedChildOnRecord(acc, path, value);
+    }, record);
+
+/**
+ * Keep undo and redo stacks of the changes made to a record set.
+ *
+ * Changes recorded between `begin` and `commit` are grouped into a single step,
+ * nesting is supported and only the outermost `commit` closes the step.
+ *
+ * @param options - History options, history is disabled when falsy.
+ * @param replay - Applies the given changes, in order, restoring one side of each.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createRecordHistory = (
+  options: boolean | HistoryOptions | undefined,
+  replay: (changes: RecordChange[], side: HistorySide) => void,
+  { ref }: ReactivityAdapter,
+) => {
+  const isEnabled = !!options;
+  const depth = (typeof options === 'object' && options.depth) || DEFAULT_HISTORY_DEPTH;
+
+  const undoStack: RecordChange[][] = [];
+  const redoStack: RecordChange[][] = [];
+  const canUndo = ref(false);
+  const canRedo = ref(false);
+
+  /** Number of pending changes at the start of each open group */
+  const groups: number[] = [];
+  let pending: RecordChange[] = [];
+
+  /** Changes made while undoing or redoing are not recorded */
+  let isReplaying = false;
+
+  const sync = () => {
+    canUndo.value = undoStack.length > 0;
+    canRedo.value = redoStack.length > 0;
+  };
+
+  const push = (changes: RecordChange[]) => {
+    if (changes.length === 0) return;
+    undoStack.push(changes);
+    if (undoStack.length > depth) undoStack.splice(0, undoStack.length - depth);
+    redoStack.length = 0;
+    sync();
+  };
+
+  /**
+   * Record a change to a record.
+   * @param id - The id of the record.
+   * @param prev - The raw record before the change.
+   * @param next - The raw record after the change.
+   */
+  const record = <T extends IdObj>(id: string, prev: T | null | undefined, next: T | null | undefined) => {
+    if (!isEnabled || isReplaying) return;
+    const existed = !isNullish(prev);
+    const exists = !isNullish(next);
+    const diff = diffObjectsDeep(prev, next, [], false, {}, 'items');
+    if (existed === exists && Object.keys(diff).length === 0) return;
+
+    const change: RecordChange = { diff, exists, existed, id };
+    if (groups.length > 0) {
+      pending.push(change);
+      return;
+    }
+    push([change]);
+  };
+
+  const begin = () => {
+    groups.push(pending.length);
+  };
+
+  const commit = () => {
+    groups.pop();
+    if (groups.length > 0) return;
+    const changes = pending;
+    pending = [];
+    push(changes);
+  };
+
+  /** Discard the changes recorded since the innermost `begin` */
+  const rollback = () => {
+    pending.length = groups.pop() ?? 0;
+  };
+
+  const replaySafely = (changes: RecordChange[], side: HistorySide) => {
+    isReplaying = true;
+    try {
+      replay(changes, side);
+    } finally {
+      isReplaying = false;
+    }
+  };
+
+  const undo = () => {
+    const changes = undoStack.pop();
+    if (!changes) return;
+    replaySafely([...changes].reverse(), 'prev');
+    redoStack.push(changes);
+    sync();
+  };
+
+  const redo = () => {
+    const changes = redoStack.pop();
+    if (!changes) return;
+    replaySafely(changes, 'next');
+    undoStack.push(changes);
+    sync();
+  };
+
+  const clear = () => {
+    undoStack.length = 0;
+    redoStack.length = 0;
+    sync();
+  };
+
+  return {
+    begin,
+    canRedo,
+    canUndo,
+    clear,
+    commit,
+    record,
+    redo,
+    rollback,
+    undo,
+  };
+};
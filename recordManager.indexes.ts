@@ -0,0 +1,116 @@
+import { isNullish, objectKeys } from './ext';
+import type { ReactivityAdapter } from './ext/reactivity';
+import type {
+  IdObj,
+  IndexKey,
+  Indexes,
+  WithComputed,
+} from './recordManager.model';
+
+type IndexBuckets = Map<IndexKey, Set<string>>;
+
+/** Normalize the output of an index resolver to a unique list of keys */
+const toIndexKeys = (value: IndexKey | IndexKey[] | null | undefined): IndexKey[] => {
+  if (isNullish(value)) return [];
+  const keys = Array.isArray(value) ? value : [value];
+  return Array.from(new Set(keys.filter((k) => !isNullish(k))));
+};
+
+/**
+ * Maintain secondary indexes for a record manager.
+ *
+ * Every index is a reactive map of key -> set of record ids, so lookups made
+ * within a `computed` or `watch` are tracked and only invalidated when the
+ * bucket being read changes. The keys a record was last indexed under are
+ * remembered so that re-indexing a record only touches the buckets it moves
+ * between instead of scanning the record set.
+ *
+ * @param indexes - The index resolvers keyed by index name.
+ * @param getItem - Getter for the current record with computed values.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createRecordIndexes = <T extends IdObj, C, I>(
+  indexes: Indexes<I, T, C> | undefined,
+  getItem: (id: string) => WithComputed<T, C> | null,
+  { reactive }: ReactivityAdapter,
+) => {
+  const names = objectKeys(indexes ?? {}) as (keyof I)[];
+
+  const buckets = new Map<keyof I, IndexBuckets>(
+    names.map((name) => [name, reactive(new Map()) as IndexBuckets]),
+  );
+
+  /** Keys each record is currently indexed under, by index name */
+  const indexedKeys = new Map<string, Map<keyof I, IndexKey[]>>();
+
+  const addToBucket = (name: keyof I, key: IndexKey, id: string) => {
+    const bucket = buckets.get(name);
+    if (!bucket) return;
+    const ids = bucket.get(key);
+    if (ids) {
+      ids.add(id);
+      return;
+    }
+    bucket.set(key, new Set([id]));
+  };
+
+  const removeFromBucket = (name: keyof I, key: IndexKey, id: string) => {
+    const bucket = buckets.get(name);
+    const ids = bucket?.get(key);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) bucket?.delete(key);
+  };
+
+  /**
+   * Bring every index up to date for a single record. Safe to call for records
+   * which have been removed, in which case the record is dropped from all indexes.
+   */
+  const reindex = (id: string) => {
+    if (names.length === 0) return;
+    const item = getItem(id);
+    const previous = indexedKeys.get(id);
+    const next = new Map<keyof I, IndexKey[]>();
+
+    names.forEach((name) => {
+      const keys = isNullish(item) ? [] : toIndexKeys(indexes?.[name]?.(item));
+      const prevKeys = previous?.get(name) ?? [];
+
+      prevKeys
+        .filter((key) => !keys.includes(key))
+        .forEach((key) => removeFromBucket(name, key, id));
+      keys
+        .filter((key) => !prevKeys.includes(key))
+        .forEach((key) => addToBucket(name, key, id));
+
+      if (keys.length > 0) next.set(name, keys);
+    });
+
+    if (next.size > 0) {
+      indexedKeys.set(id, next);
+    } else {
+      indexedKeys.delete(id);
+    }
+  };
+
+  /**
+   * Get the ids of all records indexed under a key.
+   * @param name - The name of the index.
+   * @param key - The key to look up.
+   */
+  const lookup = (name: keyof I, key: IndexKey): string[] =>
+    Array.from(buckets.get(name)?.get(key) ?? []);
+
+  /**
+   * Get every key currently present in an index.
+   * @param name - The name of the index.
+   */
+  const keysOf = (name: keyof I): IndexKey[] =>
+    Array.from(buckets.get(name)?.keys() ?? []);
+
+  return {
+    keysOf,
+    lookup,
+    reindex,
+  };
+};
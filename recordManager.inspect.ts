@@ -0,0 +1,76 @@
+import { isNullish } from './ext';
+import type { Inspectable } from './ext/inspection';
+import type { ReactivityAdapter } from './ext/reactivity';
+import type {
+  ByID,
+  IdObj,
+  PersistenceMeta,
+  RecordEvent,
+  ValidationIssue,
+} from './recordManager.model';
+
+/** Access to the internals of a record set, for inspection */
+export interface InspectSource<T extends IdObj> {
+  raw: ByID<T | null>;
+  cacheMeta: ByID<PersistenceMeta | null>;
+  errors: ByID<ValidationIssue[]>;
+  /** Names of the computed getters */
+  computedNames: string[];
+  /** Computed values of a record, read by name */
+  computedOf: (id: string) => Record<string, unknown> | null;
+  /** Names of the computed getters currently watched for a record */
+  watchedOf: (id: string) => string[];
+  /** When a record was last set or read this session */
+  accessedAt: (id: string) => number | undefined;
+  /** Values describing the whole record set */
+  summary: () => Record<string, unknown>;
+  onChange: (handler: (event: RecordEvent<T>) => void) => () => void;
+}
+
+/**
+ * Describe a record set for developer tools: its records raw and computed,
+ * their cache metadata and watchers, and its changes.
+ * @param context - The context of the record set.
+ * @param source - The internals of the record set.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createRecordInspectable = <T extends IdObj>(
+  context: string,
+  source: InspectSource<T>,
+  { toRaw }: ReactivityAdapter,
+): Inspectable => {
+  const inspectRecord = (id: string) => {
+    const cache = source.cacheMeta[id];
+    const computed = source.computedOf(id);
+    const accessedAt = source.accessedAt(id);
+    return {
+      raw: { ...toRaw(source.raw[id]) },
+      computed: Object.fromEntries(source.computedNames.map((name) => [name, computed?.[name]])),
+      cache: {
+        ...cache,
+        ...(isNullish(cache?.expires) ? {} : { expiresIn: cache.expires - Date.now() }),
+        ...(isNullish(accessedAt) ? {} : { accessedAt }),
+      },
+      watchers: Object.fromEntries(source.watchedOf(id).map((name) => [name, 'watching'])),
+      ...(source.errors[id] ? { errors: { issues: source.errors[id] } } : {}),
+    };
+  };
+
+  return {
+    children: () => Object.keys(source.raw).filter((id) => !isNullish(source.raw[id])),
+    inspect: (id) => (isNullish(id) ? { summary: source.summary() } : inspectRecord(id)),
+    label: context,
+    subscribe: (listener) => source.onChange((event) => {
+      if (event.type === 'reset') {
+        listener({ data: {}, title: 'reset' });
+        return;
+      }
+      listener({
+        data: { diff: event.diff, id: event.id, next: event.next, prev: event.prev },
+        subtitle: event.id,
+        title: event.type,
+      });
+    }),
+    type: 'recordManager',
+  };
+};
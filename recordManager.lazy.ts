@@ -0,0 +1,81 @@
+import { objectKeys } from './ext';
+import type { ComputedValue, ReactivityAdapter } from './ext/reactivity';
+import type {
+  GenericComputedValue,
+  GenericGetters,
+  IdObj,
+} from './recordManager.model';
+
+/**
+ * Compute the values of the computed getters of each record on demand.
+ *
+ * Values are only computed once first read, then cached until a value they
+ * depend on changes. Each value is backed by a `computed`, which only tracks
+ * its dependencies while something reactive reads it, e.g. a mounted component:
+ * values nobody reads hold no watcher and are recomputed when next read.
+ *
+ * @param computedGetters - The computed getters of the record set.
+ * @param getRaw - Getter for the current raw record.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createLazyComputeds = <T extends IdObj, C>(
+  computedGetters: GenericGetters<C, T>,
+  getRaw: (id: string) => T | null,
+  { computed, toRaw }: ReactivityAdapter,
+) => {
+  const names = objectKeys(computedGetters) as (keyof C)[];
+
+  /** Computed values of each record, created as they are first read */
+  const refs = new Map<string, Map<keyof C, ComputedValue<unknown>>>();
+  /** Object exposing the computed values of each record, shared by its versions */
+  const values = new Map<string, GenericComputedValue<C, T>>();
+
+  /**
+   * Read the computed value of a record, computing it if it is missing or outdated.
+   * @param id - The id of the record.
+   * @param name - The name of the computed getter.
+   */
+  const read = (id: string, name: keyof C) => {
+    const byName = refs.get(id) ?? new Map<keyof C, ComputedValue<unknown>>();
+    refs.set(id, byName);
+    let value = byName.get(name);
+    if (!value) {
+      value = computed(() => computedGetters[name]?.(getRaw)(id));
+      byName.set(name, value);
+    }
+    return value.value;
+  };
+
+  const valuesOf = (id: string) => {
+    const existing = values.get(id);
+    if (existing) return existing;
+    /** Getters are not enumerable, so that persisting or copying a record computes nothing */
+    const created = Object.defineProperties({}, Object.fromEntries(
+      names.map((name) => [name, { get: () => read(id, name) }]),
+    )) as GenericComputedValue<C, T>;
+    values.set(id, created);
+    return created;
+  };
+
+  /**
+   * Expose the computed values of a record as `computed`, replacing any values
+   * it was stored with.
+   * @param id - The id of the record.
+   * @param item - The record to expose computed values on.
+   */
+  const attach = (id: string, item: object) => {
+    (toRaw(item) as { computed?: unknown }).computed = valuesOf(id);
+  };
+
+  /** Forget the computed values of a record, e.g. once it is unset */
+  const clear = (id: string) => {
+    refs.delete(id);
+    values.delete(id);
+  };
+
+  return {
+    attach,
+    clear,
+    read,
+  };
+};
@@ -1,3 +1,9 @@
+import type { ArrayChange } from './ext/diff';
+import type { Migrations, StorageQuotaError } from './ext/persistence.core';
+import type { ReactivityScope } from './ext/reactivity';
+import type { StorageAdapter } from './ext/storage';
+import type { SyncOptions } from './ext/tabSync';
+import type { StorageTransform } from './ext/transforms';
 import { recordManager } from './recordManager';
 
 export type IdObj = { id: string };
@@ -49,8 +55,274 @@ type ItemComputed<T extends IdObj, G> = {
 export type WithComputed<T extends IdObj, G> = T & ItemComputed<T, G>;
 export type MaybeWithComputed<T extends IdObj, G> = T & Partial<ItemComputed<T, G>>;
 
+/** Value a record can be indexed under */
+export type IndexKey = string | number | boolean;
+
+/**
+ * Resolve the key(s) a record is indexed under. Returning an array indexes the
+ * record under every key, nullish values leave the record out of the index.
+ */
+export type IndexResolver<T extends IdObj, C> = (
+  item: WithComputed<T, C>,
+) => IndexKey | IndexKey[] | null | undefined;
+
+export type Indexes<I, T extends IdObj, C> = {
+  [K in keyof I]: IndexResolver<T, C>;
+};
+
+export interface HistoryOptions {
+  /** Maximum number of undoable steps kept, oldest are dropped first */
+  depth?: number;
+}
+
+/** Reversible change to a single record, stored as a minimal diff */
+export interface RecordChange {
+  id: string;
+  /** Whether the record was set before the change */
+  existed: boolean;
+  /** Whether the record is set after the change */
+  exists: boolean;
+  /**
+   * Output of `diffObjectsDeep`, keyed by `/` separated path. Arrays are diffed as
+   * a whole, with the items inserted, removed, moved and updated as `changes`.
+   */
+  diff: Record<string, { prev: any; next: any; changes?: ArrayChange[] }>;
+}
+
+export interface RecordChangeEvent<T extends IdObj> {
+  type: 'added' | 'updated' | 'removed' | 'expired';
+  id: string;
+  /** The raw record before the change, null if it was not set */
+  prev: T | null;
+  /** The raw record after the change, null if it has been removed */
+  next: T | null;
+  /** Output of `diffObjectsDeep`, keyed by `/` separated path */
+  diff: RecordChange['diff'];
+}
+
+export interface RecordResetEvent {
+  type: 'reset';
+}
+
+export type RecordEvent<T extends IdObj> = RecordChangeEvent<T> | RecordResetEvent;
+
+export type RecordEventMap<T extends IdObj> = {
+  added: RecordChangeEvent<T>;
+  updated: RecordChangeEvent<T>;
+  removed: RecordChangeEvent<T>;
+  expired: RecordChangeEvent<T>;
+  reset: RecordResetEvent;
+};
+
+export type RecordEventHandler<E> = (event: E) => void;
+
+/** Callbacks through which a backend pushes changes made elsewhere */
+export interface RemoteSubscriber<T extends IdObj> {
+  set: (item: T) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Backend of a record set. Every method resolves with the records as stored by
+ * the backend, which replace those in the record set.
+ */
+export interface RemoteAdapter<T extends IdObj> {
+  fetchAll: () => Promise<T[]>;
+  /** Resolves with null if the record does not exist */
+  fetchById: (id: string) => Promise<T | null>;
+  create: (item: Omit<T, 'id'> & Partial<IdObj>) => Promise<T>;
+  update: (id: string, patch: Partial<T>) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+  /**
+   * Listen for changes made to the backend by others.
+   * @returns A function to stop listening.
+   */
+  subscribe?: (subscriber: RemoteSubscriber<T>) => () => void;
+}
+
+export interface RemoteOptions<T extends IdObj> {
+  adapter: RemoteAdapter<T>;
+  /** Time in milliseconds for which fetched records are fresh, defaults to a minute */
+  staleTime?: number;
+}
+
+export interface RemoteFetchOptions {
+  /** Fetch even if the records are still fresh */
+  force?: boolean;
+}
+
+/** Progress of the requests made for a record or for the whole record set */
+export interface RemoteRequestState {
+  loading: boolean;
+  error: unknown;
+}
+
+/**
+ * Record manager a relation points to. Pass a function returning the manager to
+ * declare relations between managers which are defined later, or circularly.
+ */
+export interface RelationTarget<U extends IdObj> {
+  get(id: string): U | null;
+  getRaw(id: string): U | null;
+  set(item: U): void;
+  unset(id: string): void;
+  filter(filter: (item: any) => boolean): ByID<U | null>;
+  /** Declared as a method so that managers with any index names are accepted */
+  byIndex(name: string, key: IndexKey): ByID<U>;
+}
+
+export type RelationTargetRef<U extends IdObj> = RelationTarget<U> | (() => RelationTarget<U>);
+
+/**
+ * What happens to related records when a record is unset: `cascade` unsets them,
+ * `nullify` clears their foreign key and `restrict` refuses to unset the record.
+ */
+export type UnsetRule = 'cascade' | 'nullify' | 'restrict';
+
+/** The record referenced by a foreign key of this record */
+export interface BelongsTo<U extends IdObj> {
+  type: 'belongsTo';
+  target: RelationTargetRef<U>;
+  foreignKey: string;
+}
+
+/**
+ * The records referencing this record, by a foreign key of theirs or by a
+ * secondary index of the target keyed by the id of this record.
+ */
+export interface HasMany<U extends IdObj> {
+  type: 'hasMany';
+  target: RelationTargetRef<U>;
+  foreignKey?: string;
+  index?: string;
+  onUnset?: UnsetRule;
+}
+
+export type Relation<U extends IdObj = any> = BelongsTo<U> | HasMany<U>;
+
+export type Relations = Record<string, Relation>;
+
+export type Related<L> = {
+  [K in keyof L]: L[K] extends BelongsTo<infer U>
+    ? U | null
+    : L[K] extends HasMany<infer U>
+    ? U[]
+    : never;
+};
+
+/** A record along with its related records, if any relations are declared */
+export type WithRelated<X, L> = keyof L extends never ? X : X & { related: Related<L> };
+
+/** Record manager a normalized entity is written to and read back from */
+export interface EntityTarget<T extends IdObj = any> {
+  getRaw: (id: string) => T | null;
+  getRawClone: (id: string) => T | null;
+  update: (items: ByID<T>) => void;
+}
+
+/**
+ * Schema of a nested field: an entity, a list of entities, or either stored
+ * under another key of the record, e.g. `customer` as `customerId`.
+ */
+export type FieldSchema =
+  | EntitySchema
+  | [EntitySchema]
+  | { schema: EntitySchema | [EntitySchema]; key: string };
+
+export interface EntitySchema<T extends IdObj = any> {
+  target: EntityTarget<T>;
+  fields: Record<string, FieldSchema>;
+  /** Declare nested fields, allowing schemas which reference each other */
+  define: (fields: Record<string, FieldSchema>) => EntitySchema<T>;
+}
+
+export interface Normalized<R> {
+  /** The id, or ids, of the top-level entities */
+  result: R;
+  /** The records of every entity found, by manager */
+  entities: Map<EntityTarget, ByID<IdObj>>;
+}
+
+export interface ManagerOptions<T extends IdObj, C, I, L extends Relations = {}> {
+  /** Secondary indexes maintained incrementally as records change */
+  indexes?: Indexes<I, T, C>;
+  /** Record changes to allow undo and redo */
+  history?: boolean | HistoryOptions;
+  /** Backend the record set is fetched from and saved to */
+  remote?: RemoteOptions<T>;
+  /** Relations to records of other managers, exposed on each record as `related` */
+  relations?: L;
+  /**
+   * Compute values only once read through `computed` or the getters, rather than
+   * watching every computed getter of every record. Lazy computed values are
+   * neither persisted nor serialized, and indexes reading them are only updated
+   * when their record is set.
+   */
+  lazyComputeds?: boolean;
+  /**
+   * Dispose the record set along with an effect scope, or along with the scope
+   * active when it is created if true, e.g. that of the component creating it.
+   */
+  bindScope?: boolean | ReactivityScope;
+}
+
+export type ConditionOperators<V> = {
+  eq?: V;
+  ne?: V;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[];
+};
+
+/**
+ * Condition on a single value of a record: a value to match exactly, a set of
+ * operators which must all hold, or a predicate.
+ */
+export type FieldCondition<V> = V | ConditionOperators<V> | ((value: V) => boolean);
+
+export type WhereClause<T extends IdObj, C> = {
+  [K in keyof T]?: FieldCondition<T[K]>;
+} & {
+  computed?: {
+    [K in keyof GenericComputedValue<C, T>]?: FieldCondition<GenericComputedValue<C, T>[K]>;
+  };
+};
+
+export type SortDirection = 'asc' | 'desc';
+
+export type OrderBy<T extends IdObj, C> = keyof T | {
+  by: keyof T | ((item: WithComputed<T, C>) => unknown);
+  direction?: SortDirection;
+};
+
+export interface Query<T extends IdObj, C, I> {
+  where?: WhereClause<T, C> | ((item: WithComputed<T, C>) => boolean);
+  orderBy?: OrderBy<T, C> | OrderBy<T, C>[];
+  limit?: number;
+  offset?: number;
+  /** Narrow the records considered to those under a key of a secondary index */
+  index?: {
+    name: keyof I;
+    key: IndexKey;
+  };
+}
+
 export type PersistenceMeta = {
-  expires: number;
+  /** When the record expires, unset if it never does */
+  expires?: number;
+  /** Time to live of the record when set with its own */
+  ttl?: number;
+  /** When the record was last fetched from the remote backend */
+  fetchedAt?: number;
+}
+
+/** Snapshot of a record set, e.g. rendered on the server and hydrated on the client */
+export interface RecordSetSnapshot<T extends IdObj = IdObj> {
+  /** Raw records by id, along with the values last computed for them */
+  records: ByID<MaybeWithComputed<T, unknown>>;
+  cacheMeta: ByID<PersistenceMeta>;
 }
 
 export enum GetElement {
@@ -58,11 +330,84 @@ export enum GetElement {
   COMPUTED = 'computed',
 }
 
+export interface EvictionOptions {
+  /**
+   * Which persisted records are evicted first: `lru` evicts the least recently
+   * set or read, `expires` evicts those closest to expiring. Defaults to `lru`.
+   */
+  policy?: 'lru' | 'expires';
+  /** Maximum number of records kept, the rest are evicted according to the policy */
+  maxRecords?: number;
+  /** Maximum size in bytes of the persisted record set as stored, after any transforms */
+  maxSize?: number;
+  /** Called when records cannot be persisted for lack of space, even after eviction */
+  onQuotaExceeded?: (error: StorageQuotaError) => void;
+}
+
+export interface ValidationIssue {
+  message: string;
+  /** Path to the invalid value within the record */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+/** Validator following the Standard Schema interface, as implemented by most schema libraries */
+export interface StandardSchemaValidator {
+  '~standard': {
+    version: 1;
+    vendor: string;
+    validate: (value: unknown) =>
+      | { value: unknown; issues?: undefined }
+      | { issues: ReadonlyArray<ValidationIssue> }
+      | Promise<unknown>;
+  };
+}
+
+/**
+ * Validate a record: return true or nothing if it is valid, and false, a message
+ * or a list of issues if it is not. Throwing marks the record invalid as well.
+ */
+export type ValidatorFunction = (record: unknown) => boolean | string | ValidationIssue[] | void;
+
+export type RecordValidator = ValidatorFunction | StandardSchemaValidator;
+
+/**
+ * What happens to invalid records: `throw` rejects them with an error, `drop`
+ * ignores them and `report` keeps them. Invalid records are reported in
+ * `manager.errors` unless rejected.
+ */
+export type ValidationMode = 'throw' | 'drop' | 'report';
+
 export interface Meta {
   context: string;
   persist?: boolean;
   /** Time to live in milliseconds */
   ttl?: number;
+  /** Extend the life of a record by its time to live whenever it is read */
+  slidingTtl?: boolean;
+  /** Expire records as soon as their time to live passes, rather than on initialization or read */
+  scheduleExpiry?: boolean;
+  /** Storage backend for persisted records, defaults to local storage */
+  storage?: StorageAdapter;
+  /** Transforms applied to persisted records and their cache metadata, e.g. compression and encryption */
+  transforms?: StorageTransform[];
+  /** Merge changes made to persisted records in other tabs, per record id */
+  sync?: boolean | Omit<SyncOptions, 'onMerge'>;
+  /** Version of the record shape, stored alongside persisted records */
+  version?: number;
+  /**
+   * Migrations run on each persisted record when loading records persisted with
+   * an older version. Records for which a migration throws or returns null are dropped.
+   */
+  migrations?: Migrations;
+  /** Evict records when the persisted record set runs out of space */
+  eviction?: EvictionOptions;
+  /** Validate records when set and when revived from persistence or other tabs */
+  validate?: RecordValidator;
+  /**
+   * What happens to invalid records, defaults to `throw`. Revived records are
+   * never thrown on, they are dropped unless the mode is `report`.
+   */
+  onInvalid?: ValidationMode;
 }
 
 type ChildPath<T> = `${keyof T extends string ? string & keyof T : string}`
@@ -0,0 +1,171 @@
+import { isNullish, nullishFilter } from './ext';
+import type {
+  ByID,
+  EntitySchema,
+  EntityTarget,
+  FieldSchema,
+  IdObj,
+  Normalized,
+} from './recordManager.model';
+
+type SchemaOrList = EntitySchema | [EntitySchema];
+
+type NormalizedResult<S> = S extends [EntitySchema] ? string[] : string | null;
+
+type DenormalizedResult<S> = S extends [EntitySchema]
+  ? Record<string, unknown>[]
+  : Record<string, unknown> | null;
+
+/**
+ * Declare how records of a manager nest other entities.
+ *
+ * ex.
+ * ```
+ * const customer = entity(customers);
+ * const order = entity(orders, {
+ *   customer: { schema: customer, key: 'customerId' },
+ *   items: [entity(items)],
+ * });
+ * customer.define({ orders: [order] });
+ * ```
+ * @param target - The manager records of the entity are written to.
+ * @param fields - The schema of each nested field.
+ */
+export const entity = <T extends IdObj>(
+  target: EntityTarget<T>,
+  fields: Record<string, FieldSchema> = {},
+): EntitySchema<T> => {
+  const schema: EntitySchema<T> = {
+    define: (more) => {
+      Object.assign(schema.fields, more);
+      return schema;
+    },
+    fields: { ...fields },
+    target,
+  };
+  return schema;
+};
+
+/** Resolve the key a nested field is stored under and whether it holds a list */
+const resolveField = (name: string, field: FieldSchema) => {
+  if (Array.isArray(field)) return { key: name, many: true, schema: field[0] };
+  if ('target' in field) return { key: name, many: false, schema: field };
+  return Array.isArray(field.schema)
+    ? { key: field.key, many: true, schema: field.schema[0] }
+    : { key: field.key, many: false, schema: field.schema };
+};
+
+/**
+ * Split a nested payload into the records of each entity, replacing nested
+ * entities with their ids. Entities found more than once are merged. Values of
+ * nested fields which are not objects are taken to be ids already.
+ *
+ * By default, the records are merged into their managers with `update`.
+ *
+ * @param payload - An entity, or a list of entities.
+ * @param schema - The schema of the entity, or a list holding it.
+ * @param options.write - Whether to write the records to their managers.
+ * @returns The id(s) of the top-level entities and the records of every entity.
+ */
+export const normalize = <S extends SchemaOrList>(
+  payload: unknown,
+  schema: S,
+  options?: { write?: boolean },
+): Normalized<NormalizedResult<S>> => {
+  const entities = new Map<EntityTarget, ByID<IdObj>>();
+  /** Objects already normalized, so that circular payloads terminate */
+  const seen = new Set<object>();
+
+  const add = (target: EntityTarget, record: IdObj) => {
+    const records = entities.get(target) ?? {};
+    records[record.id] = { ...records[record.id], ...record };
+    entities.set(target, records);
+  };
+
+  const visit = (value: unknown, entitySchema: EntitySchema): string | null => {
+    if (isNullish(value)) return null;
+    if (typeof value !== 'object') return String(value);
+
+    const item = value as Record<string, unknown>;
+    if (isNullish(item.id)) throw new Error('Unable to normalize an entity without an id');
+    const id = String(item.id);
+    if (seen.has(item)) return id;
+    seen.add(item);
+
+    const record: Record<string, unknown> = { ...item, id };
+    Object.entries(entitySchema.fields).forEach(([name, field]) => {
+      if (!(name in item)) return;
+      const { key, many, schema: nested } = resolveField(name, field);
+      const nestedValue = item[name];
+      if (key !== name) delete record[name];
+      record[key] = many
+        ? (Array.isArray(nestedValue) ? nestedValue : [])
+          .map((v) => visit(v, nested))
+          .filter(nullishFilter)
+        : visit(nestedValue, nested);
+    });
+
+    add(entitySchema.target, record as IdObj);
+    return id;
+  };
+
+  const result = (Array.isArray(schema)
+    ? (Array.isArray(payload) ? payload : [])
+      .map((item) => visit(item, schema[0]))
+      .filter(nullishFilter)
+    : visit(payload, schema)) as NormalizedResult<S>;
+
+  if (options?.write !== false) {
+    entities.forEach((records, target) => {
+      target.update(Object.fromEntries(
+        Object.entries(records).map(([id, record]) => [id, { ...target.getRaw(id), ...record }]),
+      ));
+    });
+  }
+
+  return { entities, result };
+};
+
+/**
+ * Rebuild nested entities from their managers, the reverse of `normalize`.
+ * Ids of missing records are dropped, and entities nested within themselves are
+ * left as `{ id }` rather than nested again.
+ *
+ * @param ids - The id of an entity, or a list of ids.
+ * @param schema - The schema of the entity, or a list holding it.
+ * @returns The nested entities, as plain objects.
+ */
+export const denormalize = <S extends SchemaOrList>(
+  ids: S extends [EntitySchema] ? string[] : string,
+  schema: S,
+): DenormalizedResult<S> => {
+  const build = (
+    id: string,
+    entitySchema: EntitySchema,
+    ancestors: { schema: EntitySchema; id: string }[],
+  ): Record<string, unknown> | null => {
+    if (ancestors.some((a) => a.schema === entitySchema && a.id === id)) return { id };
+    if (isNullish(entitySchema.target.getRaw(id))) return null;
+
+    const path = [...ancestors, { id, schema: entitySchema }];
+    const result = entitySchema.target.getRawClone(id) as Record<string, unknown>;
+    Object.entries(entitySchema.fields).forEach(([name, field]) => {
+      const { key, many, schema: nested } = resolveField(name, field);
+      if (!(key in result)) return;
+      const value = result[key];
+      if (key !== name) delete result[key];
+      result[name] = many
+        ? (Array.isArray(value) ? value : [])
+          .map((v) => build(String(v), nested, path))
+          .filter(nullishFilter)
+        : isNullish(value) ? null : build(String(value), nested, path);
+    });
+    return result;
+  };
+
+  return (Array.isArray(schema)
+    ? (ids as string[])
+      .map((id) => build(id, schema[0], []))
+      .filter(nullishFilter)
+    : build(ids as string, schema, [])) as DenormalizedResult<S>;
+};
@@ -0,0 +1,100 @@
+import { isNullish } from './ext';
+import { diffObjectsDeep, isEqual } from './ext/diff';
+import { getNestedChildOnRecord } from './ext/nest';
+import type { ReactivityAdapter } from './ext/reactivity';
+import { applyRecordDiff } from './recordManager.history';
+import type {
+  ByID,
+  IdObj,
+  RecordChange,
+} from './recordManager.model';
+
+/** Change applied optimistically, either fields to merge or a function of the current record */
+export type OptimisticPatch<T extends IdObj> = Partial<T> | ((record: T | null) => T);
+
+/** Access to the record set optimistic changes are applied to */
+export interface OptimisticStore<T extends IdObj> {
+  /** Get a raw clone of a record, null if it is not set */
+  get: (id: string) => T | null;
+  set: (item: T) => void;
+  unset: (id: string) => void;
+}
+
+/**
+ * Apply changes to records ahead of their confirmation, e.g. by a backend.
+ *
+ * Each change is kept as a diff so that a rejected change is reverted on its own:
+ * only the values it set and which have not been changed since are restored, so
+ * changes landing on the same record in the meantime are kept.
+ *
+ * @param store - The record set to apply changes to.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createOptimisticUpdates = <T extends IdObj>(
+  store: OptimisticStore<T>,
+  { reactive }: ReactivityAdapter,
+) => {
+  /** Number of unconfirmed changes for each record */
+  const pending = reactive<ByID<number>>({});
+
+  /**
+   * Revert a change, restoring the previous value of every path still holding the
+   * value the change set. A record created by the change is unset.
+   */
+  const revert = (id: string, existed: boolean, diff: RecordChange['diff']) => {
+    const current = store.get(id);
+    if (isNullish(current)) return;
+    if (!existed) {
+      store.unset(id);
+      return;
+    }
+
+    const untouched = Object.fromEntries(
+      Object.entries(diff).filter(([path, change]) =>
+        isEqual(getNestedChildOnRecord(current, path), change.next)),
+    );
+    if (Object.keys(untouched).length === 0) return;
+    store.set(applyRecordDiff(current, untouched, 'prev'));
+  };
+
+  /**
+   * Apply a change immediately, reverting it if the commit rejects.
+   * @param id - The id of the record to change.
+   * @param patch - The change to apply.
+   * @param commit - Settles once the change is confirmed or rejected.
+   * @returns The result of the commit, rejecting with its error once reverted.
+   */
+  const apply = async <R>(
+    id: string,
+    patch: OptimisticPatch<T>,
+    commit: PromiseLike<R>,
+  ): Promise<R> => {
+    const prev = store.get(id);
+    const next = typeof patch === 'function'
+      ? patch(prev)
+      : { ...prev, ...patch, id } as T;
+    const diff = diffObjectsDeep(prev, next, [], false, {}, 'items');
+
+    store.set(next);
+    pending[id] = (pending[id] ?? 0) + 1;
+    try {
+      return await commit;
+    } catch (e) {
+      revert(id, !isNullish(prev), diff);
+      throw e;
+    } finally {
+      pending[id] -= 1;
+      if (pending[id] <= 0) delete pending[id];
+    }
+  };
+
+  /**
+   * Whether a record has changes which are yet to be confirmed.
+   */
+  const isPending = (id: string) => (pending[id] ?? 0) > 0;
+
+  return {
+    apply,
+    isPending,
+  };
+};
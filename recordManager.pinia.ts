@@ -0,0 +1,65 @@
+import { defineStore, skipHydrate } from 'pinia';
+import { computed, toRaw } from 'vue';
+
+import { cloneRaw } from './helpers';
+import { recordManager } from './recordManager';
+import type {
+  ByID,
+  GenericGetters,
+  IdObj,
+  ManagerOptions,
+  Relations,
+} from './recordManager.model';
+
+type RecordStoreMeta<T extends IdObj> = Parameters<typeof recordManager<T>>[0];
+
+/**
+ * Define a Pinia store backed by a record manager. The records are the state of
+ * the store and the getters are a getter of the store, so that `$subscribe`,
+ * Pinia plugins and devtools see every change. Records are changed through the
+ * `set`, `update`, `unset` and `reset` actions, and `$reset` restores the initial
+ * records. The manager is exposed as `manager` for everything else.
+ *
+ * The manager is disposed along with the store.
+ *
+ * ex.
+ * ```
+ * const useUsers = defineRecordStore<User>('users', { context: 'users' })({
+ *   fullName: (get: Getter<User>) => (id: string) => `${get(id)?.first} ${get(id)?.last}`,
+ * });
+ * const users = useUsers();
+ * users.set(user);
+ * users.records[user.id]?.computed.fullName;
+ * ```
+ * @param id - The id of the store.
+ * @param meta - The metadata of the record set, see `recordManager`.
+ */
+export const defineRecordStore = <T extends IdObj>(id: string, meta?: RecordStoreMeta<T>) =>
+  <C extends object, G extends object, I extends object = {}, L extends Relations = {}>(
+    computedGetters: GenericGetters<C, T>,
+    getters?: GenericGetters<G, T>,
+    options?: ManagerOptions<T, C, I, L>,
+  ) => defineStore(id, () => {
+    /** The manager keeps the initial records it is given up to date, so keep a copy */
+    const initial = cloneRaw(meta?.initial ?? {}, toRaw) as ByID<T>;
+    const manager = recordManager<T>(meta && { ...meta, initial: cloneRaw(initial, toRaw) })(
+      computedGetters,
+      getters,
+      { bindScope: true, ...options },
+    );
+
+    return {
+      /** Records with computed values by id, read only */
+      records: skipHydrate(manager.records),
+      getters: computed(() => manager.getters),
+
+      set: manager.set,
+      update: manager.update,
+      unset: manager.unset,
+      reset: manager.reset,
+      /** Restore the initial records */
+      $reset: () => manager.overwrite(cloneRaw(initial, toRaw)),
+
+      manager,
+    };
+  });
@@ -0,0 +1,123 @@
+import { isNullish, objectKeys } from './ext';
+import { isEqual } from './ext/diff';
+import type {
+  ConditionOperators,
+  FieldCondition,
+  IdObj,
+  OrderBy,
+  Query,
+  SortDirection,
+  WhereClause,
+  WithComputed,
+} from './recordManager.model';
+
+const OPERATORS: (keyof ConditionOperators<unknown>)[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'];
+
+/** Determine if a condition is a set of operators rather than a value to match */
+const isConditionOperators = <V>(
+  condition: FieldCondition<V>,
+): condition is ConditionOperators<V> => {
+  if (typeof condition !== 'object' || condition === null) return false;
+  if (Array.isArray(condition) || condition instanceof Date) return false;
+  const keys = Object.keys(condition);
+  return keys.length > 0 && keys.every((k) => OPERATORS.includes(k as keyof ConditionOperators<V>));
+};
+
+const toComparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+/**
+ * Compare two values for sorting. Nullish values are always sorted last,
+ * in either direction, strings are compared with `localeCompare`.
+ */
+export const compareValues = (a: unknown, b: unknown, direction: SortDirection = 'asc'): number => {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (isNullish(left) && isNullish(right)) return 0;
+  if (isNullish(left)) return 1;
+  if (isNullish(right)) return -1;
+  const modifier = direction === 'desc' ? -1 : 1;
+  if (typeof left === 'string' && typeof right === 'string') return left.localeCompare(right) * modifier;
+  if (left < right) return -modifier;
+  if (left > right) return modifier;
+  return 0;
+};
+
+/**
+ * Check a single value against a condition.
+ * @param value - The value on the record.
+ * @param condition - The condition to check the value against.
+ */
+export const matchesCondition = <V>(value: V, condition: FieldCondition<V>): boolean => {
+  if (typeof condition === 'function') return (condition as (v: V) => boolean)(value);
+  if (!isConditionOperators(condition)) return isEqual(value, condition);
+
+  const { eq, ne, gt, gte, lt, lte } = condition;
+  if ('eq' in condition && !isEqual(value, eq)) return false;
+  if ('ne' in condition && isEqual(value, ne)) return false;
+  if (condition.in && !condition.in.some((v) => isEqual(value, v))) return false;
+
+  /** Range checks never match nullish values */
+  const ranged = [gt, gte, lt, lte].some((v) => !isNullish(v));
+  if (ranged && isNullish(value)) return false;
+  if (!isNullish(gt) && !(compareValues(value, gt) > 0)) return false;
+  if (!isNullish(gte) && !(compareValues(value, gte) >= 0)) return false;
+  if (!isNullish(lt) && !(compareValues(value, lt) < 0)) return false;
+  if (!isNullish(lte) && !(compareValues(value, lte) <= 0)) return false;
+  return true;
+};
+
+/**
+ * Check a record against a where clause. Every field condition must hold,
+ * conditions under `computed` are checked against the computed values.
+ */
+export const matchesWhere = <T extends IdObj, C>(
+  item: WithComputed<T, C>,
+  where: Query<T, C, unknown>['where'],
+): boolean => {
+  if (isNullish(where)) return true;
+  if (typeof where === 'function') return where(item);
+
+  const { computed: computedWhere, ...fields } = where as WhereClause<T, C>;
+
+  const fieldsMatch = objectKeys(fields).every((key) =>
+    matchesCondition(item[key as keyof T], fields[key as keyof typeof fields] as FieldCondition<unknown>));
+  if (!fieldsMatch) return false;
+
+  return objectKeys(computedWhere ?? {}).every((key) =>
+    matchesCondition(
+      (item.computed as Record<string, unknown> | undefined)?.[key as string],
+      computedWhere?.[key] as FieldCondition<unknown>,
+    ));
+};
+
+/**
+ * Sort records by one or more order clauses, falling back to the next clause
+ * when two records are equal. Does not mutate the given list.
+ */
+export const sortRecords = <T extends IdObj, C>(
+  items: WithComputed<T, C>[],
+  orderBy: Query<T, C, unknown>['orderBy'],
+): WithComputed<T, C>[] => {
+  if (isNullish(orderBy)) return items;
+  const clauses = (Array.isArray(orderBy) ? orderBy : [orderBy]).map((clause: OrderBy<T, C>) => {
+    const { by, direction = 'asc' } = typeof clause === 'object'
+      ? clause
+      : { by: clause, direction: 'asc' as SortDirection };
+    const read = typeof by === 'function'
+      ? by
+      : (item: WithComputed<T, C>) => item[by as keyof T];
+    return { read, direction };
+  });
+
+  return [...items].sort((a, b) => {
+    for (const { read, direction } of clauses) {
+      const result = compareValues(read(a), read(b), direction);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+};
+
+/** Slice a list of records according to the query's offset and limit */
+export const paginate = <T>(items: T[], offset = 0, limit?: number): T[] =>
+  items.slice(offset, isNullish(limit) ? undefined : offset + limit);
@@ -0,0 +1,146 @@
+import { isNullish, nullishFilter } from './ext';
+import type { ReactivityAdapter } from './ext/reactivity';
+import type {
+  BelongsTo,
+  HasMany,
+  IdObj,
+  Relation,
+  RelationTarget,
+  RelationTargetRef,
+  Relations,
+  UnsetRule,
+} from './recordManager.model';
+
+/**
+ * Declare that a record references a record of another manager by a foreign key.
+ *
+ * ex.
+ * ```
+ * const orders = recordManager<Order>()({}, {}, {
+ *   relations: { customer: belongsTo(() => customers, 'customerId') },
+ * });
+ * orders.get(id)?.related.customer;
+ * ```
+ * @param target - The manager of the related record.
+ * @param foreignKey - The field of this record holding the id of the related record.
+ */
+export const belongsTo = <U extends IdObj>(
+  target: RelationTargetRef<U>,
+  foreignKey: string,
+): BelongsTo<U> => ({ foreignKey, target, type: 'belongsTo' });
+
+/**
+ * Declare that records of another manager reference a record, either by a foreign
+ * key of theirs or by a secondary index of the target keyed by the id of the record.
+ * Looking up through an index avoids scanning the target record set.
+ *
+ * ex.
+ * ```
+ * relations: {
+ *   items: hasMany(() => items, { index: 'byOrder', onUnset: 'cascade' }),
+ * }
+ * ```
+ * @param target - The manager of the related records.
+ * @param options.foreignKey - The field of the related records holding the id of this record.
+ * @param options.index - The index of the target to look related records up with.
+ * @param options.onUnset - What happens to related records when this record is unset.
+ */
+export const hasMany = <U extends IdObj>(
+  target: RelationTargetRef<U>,
+  options: { foreignKey?: string; index?: string; onUnset?: UnsetRule },
+): HasMany<U> => ({ ...options, target, type: 'hasMany' });
+
+const resolveTarget = <U extends IdObj>(target: RelationTargetRef<U>): RelationTarget<U> =>
+  (typeof target === 'function' ? target() : target);
+
+/**
+ * Resolve the relations of a record set.
+ *
+ * Related records are exposed through getters reading the related managers, so
+ * they are tracked when read within a `computed` or `watch` and always current.
+ *
+ * @param relations - The relations keyed by name.
+ * @param getRaw - Getter for the current raw record.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createRecordRelations = <T extends IdObj>(
+  relations: Relations | undefined,
+  getRaw: (id: string) => T | null,
+  { toRaw }: ReactivityAdapter,
+) => {
+  const entries = Object.entries(relations ?? {});
+
+  const findHasMany = (id: string, relation: HasMany<IdObj>) => {
+    const target = resolveTarget(relation.target);
+    if (relation.index) return Object.values(target.byIndex(relation.index, id));
+    const { foreignKey } = relation;
+    if (!foreignKey) throw new Error('A hasMany relation needs either a foreign key or an index');
+    return Object.values(target.filter((item) => item?.[foreignKey] === id)).filter(nullishFilter);
+  };
+
+  const find = (id: string, relation: Relation) => {
+    if (relation.type === 'hasMany') return findHasMany(id, relation);
+    const key = (getRaw(id) as Record<string, unknown> | null)?.[relation.foreignKey];
+    return isNullish(key) ? null : resolveTarget(relation.target).get(String(key));
+  };
+
+  /**
+   * Expose the related records of a record as `related`. The property is not
+   * enumerable, so it is neither persisted nor copied along with the record.
+   * @param id - The id of the record.
+   * @param item - The record to expose related records on.
+   */
+  const attach = (id: string, item: object) => {
+    if (entries.length === 0) return;
+    const related = Object.defineProperties({}, Object.fromEntries(
+      entries.map(([name, relation]) => [name, {
+        enumerable: true,
+        get: () => find(id, relation),
+      }]),
+    ));
+    Object.defineProperty(toRaw(item), 'related', {
+      configurable: true,
+      enumerable: false,
+      value: related,
+    });
+  };
+
+  /**
+   * Apply the unset rules of the relations of a record about to be unset.
+   * Restrictions are checked before anything is changed.
+   * @param id - The id of the record.
+   * @throws If a relation restricts unsetting a record which has related records.
+   */
+  const applyUnsetRules = (id: string) => {
+    const ruled = entries
+      .map(([name, relation]) => ({ name, relation }))
+      .filter((r): r is { name: string; relation: HasMany<IdObj> } =>
+        r.relation.type === 'hasMany' && !isNullish(r.relation.onUnset))
+      .map(({ name, relation }) => ({ name, records: findHasMany(id, relation), relation }));
+
+    const restricted = ruled.find(({ relation, records }) =>
+      relation.onUnset === 'restrict' && records.length > 0);
+    if (restricted) {
+      throw new Error(`Unable to unset ${id}, it has related records in "${restricted.name}"`);
+    }
+
+    ruled.forEach(({ relation, records }) => {
+      const target = resolveTarget(relation.target);
+      records.forEach((record) => {
+        if (relation.onUnset === 'cascade') {
+          target.unset(record.id);
+          return;
+        }
+        if (relation.onUnset !== 'nullify') return;
+        const raw = target.getRaw(record.id);
+        if (!relation.foreignKey || isNullish(raw)) return;
+        target.set({ ...raw, [relation.foreignKey]: null });
+      });
+    });
+  };
+
+  return {
+    applyUnsetRules,
+    attach,
+  };
+};
@@ -0,0 +1,221 @@
+import { isNullish } from './ext';
+import type { ReactivityAdapter } from './ext/reactivity';
+import type {
+  ByID,
+  IdObj,
+  RemoteFetchOptions,
+  RemoteOptions,
+  RemoteRequestState,
+} from './recordManager.model';
+
+/** Default time in milliseconds for which fetched records are fresh */
+const DEFAULT_STALE_TIME = 1000 * 60;
+
+/** Key of the request fetching the whole record set */
+const FETCH_ALL = '*';
+
+/** Access to the record set the remote backend is synchronized with */
+export interface RemoteStore<T extends IdObj, R> {
+  /** Get a record as exposed by the record set, null if it is not set */
+  get: (id: string) => R | null;
+  /** Ids of the records fetched from the backend */
+  fetchedIds: () => string[];
+  /** When a record was last fetched from the backend */
+  fetchedAt: (id: string) => number | undefined;
+  /** Set records received from the backend and unset those it removed, in a single transaction */
+  receive: (items: T[], removed?: string[]) => void;
+}
+
+/**
+ * Synchronize a record set with a remote backend.
+ *
+ * Concurrent fetches of the same records share a single request, and fetches of
+ * records which are still fresh resolve without a request. Loading and error
+ * states are kept for the whole record set and for each record.
+ *
+ * Without an adapter every request rejects, so that the record set behaves the
+ * same whether or not it has a backend.
+ *
+ * @param options - Remote options, the record set is local only when undefined.
+ * @param store - The record set to synchronize.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createRecordRemote = <T extends IdObj, R>(
+  options: RemoteOptions<T> | undefined,
+  store: RemoteStore<T, R>,
+  { reactive, ref }: ReactivityAdapter,
+) => {
+  const adapter = options?.adapter;
+  const staleTime = options?.staleTime ?? DEFAULT_STALE_TIME;
+
+  /** Whether the whole record set is being fetched */
+  const loading = ref(false);
+  /** The error of the last fetch of the whole record set, if it failed */
+  const error = ref<unknown>(null);
+  const states = reactive<ByID<RemoteRequestState>>({});
+
+  /** Requests in flight by key, shared by concurrent callers */
+  const inFlight = new Map<string, Promise<unknown>>();
+  /** Number of requests in flight for each record */
+  const pending = new Map<string, number>();
+  /** When each record was last requested, so that failing requests are only retried once stale */
+  const requestedAt = new Map<string, number>();
+  let fetchedAllAt: number | undefined;
+
+  const requireAdapter = () => {
+    if (!adapter) throw new Error('No remote adapter is configured for this record set');
+    return adapter;
+  };
+
+  const isStale = (at: number | undefined) => isNullish(at) || at + staleTime <= Date.now();
+
+  const dedupe = <V>(key: string, request: () => Promise<V>): Promise<V> => {
+    const existing = inFlight.get(key);
+    if (existing) return existing as Promise<V>;
+    const promise = request().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  /** Run a request for a record, keeping its loading and error states */
+  const track = async <V>(id: string, request: () => Promise<V>): Promise<V> => {
+    pending.set(id, (pending.get(id) ?? 0) + 1);
+    states[id] = { error: null, loading: true };
+    try {
+      return await request();
+    } catch (e) {
+      states[id].error = e;
+      throw e;
+    } finally {
+      const count = (pending.get(id) ?? 1) - 1;
+      if (count > 0) {
+        pending.set(id, count);
+      } else {
+        pending.delete(id);
+      }
+      states[id].loading = count > 0;
+    }
+  };
+
+  /**
+   * Fetch the whole record set. Records which were fetched before and are no
+   * longer returned by the backend are unset, records only set locally are kept.
+   */
+  const fetchAll = (fetchOptions?: RemoteFetchOptions): Promise<void> => {
+    if (!fetchOptions?.force && !isStale(fetchedAllAt)) return Promise.resolve();
+    return dedupe(FETCH_ALL, async () => {
+      loading.value = true;
+      error.value = null;
+      try {
+        const items = await requireAdapter().fetchAll();
+        const ids = new Set(items.map((item) => item.id));
+        store.receive(items, store.fetchedIds().filter((id) => !ids.has(id)));
+        fetchedAllAt = Date.now();
+      } catch (e) {
+        error.value = e;
+        throw e;
+      } finally {
+        loading.value = false;
+      }
+    });
+  };
+
+  /**
+   * Fetch a record, unsetting it if the backend no longer has it.
+   * @returns The record, or null if it does not exist.
+   */
+  const fetch = (id: string, fetchOptions?: RemoteFetchOptions): Promise<R | null> => {
+    if (!fetchOptions?.force && !isStale(store.fetchedAt(id))) {
+      return Promise.resolve(store.get(id));
+    }
+    return dedupe(id, () => track(id, async () => {
+      requestedAt.set(id, Date.now());
+      const item = await requireAdapter().fetchById(id);
+      if (isNullish(item)) {
+        store.receive([], [id]);
+      } else {
+        store.receive([item]);
+      }
+      return store.get(id);
+    }));
+  };
+
+  /**
+   * Get a record, fetching it in the background if it is missing or stale.
+   * Failures are reported by `errorOf` and retried once the last attempt is stale.
+   * @returns The record as currently set, or null.
+   */
+  const get = (id: string) => {
+    const lastRequested = Math.max(store.fetchedAt(id) ?? 0, requestedAt.get(id) ?? 0);
+    if (adapter && !inFlight.has(id) && isStale(lastRequested || undefined)) {
+      fetch(id, { force: true }).catch(() => {});
+    }
+    return store.get(id);
+  };
+
+  /**
+   * Create a record in the backend and set it as returned, e.g. with its new id.
+   */
+  const create = async (item: Omit<T, 'id'> & Partial<IdObj>): Promise<T> => {
+    const request = async () => {
+      const created = await requireAdapter().create(item);
+      store.receive([created]);
+      return created;
+    };
+    return isNullish(item.id) ? request() : track(item.id, request);
+  };
+
+  /**
+   * Update a record in the backend and set it as returned.
+   */
+  const update = (id: string, patch: Partial<T>): Promise<T> => track(id, async () => {
+    const updated = await requireAdapter().update(id, patch);
+    store.receive([updated]);
+    return updated;
+  });
+
+  /**
+   * Remove a record from the backend, then unset it.
+   */
+  const remove = (id: string): Promise<void> => track(id, async () => {
+    await requireAdapter().remove(id);
+    store.receive([], [id]);
+  });
+
+  let unsubscribe: (() => void) | null = null;
+
+  /**
+   * Listen for changes pushed by the backend, if it supports it. Called once the
+   * record set is ready, calling it again has no effect.
+   */
+  const connect = () => {
+    if (unsubscribe || !adapter?.subscribe) return;
+    unsubscribe = adapter.subscribe({
+      remove: (id) => store.receive([], [id]),
+      set: (item) => store.receive([item]),
+    });
+  };
+
+  /** Stop listening for changes pushed by the backend */
+  const disconnect = () => {
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  return {
+    connect,
+    create,
+    disconnect,
+    /** The error of the last request made for a record, if it failed */
+    errorOf: (id: string) => states[id]?.error ?? null,
+    error,
+    fetch,
+    fetchAll,
+    get,
+    /** Whether a request for a record is in flight */
+    isLoading: (id: string) => states[id]?.loading ?? false,
+    loading,
+    remove,
+    update,
+  };
+};
@@ -0,0 +1,113 @@
+import { isPromiseLike } from './ext';
+import type { ReactivityAdapter } from './ext/reactivity';
+import type {
+  ByID,
+  RecordValidator,
+  StandardSchemaValidator,
+  ValidationIssue,
+  ValidationMode,
+} from './recordManager.model';
+
+export class RecordValidationError extends Error {
+  constructor(
+    /** The id of the invalid record */
+    readonly id: string,
+    /** Why the record is invalid */
+    readonly issues: ValidationIssue[],
+  ) {
+    super(`Invalid record ${id}: ${issues.map((issue) => issue.message).join(', ')}`);
+    this.name = 'RecordValidationError';
+  }
+}
+
+type ValidationResult = { value: unknown } | { issues: ValidationIssue[] };
+
+const isStandardSchema = (validator: RecordValidator): validator is StandardSchemaValidator =>
+  typeof validator === 'object' && validator !== null && '~standard' in validator;
+
+/**
+ * Run a validator on a record. Standard schemas may transform the record, in
+ * which case the transformed record is returned as its value.
+ */
+export const runValidator = (validator: RecordValidator, record: unknown): ValidationResult => {
+  /** Validators which throw fail validation with the error as the issue */
+  const toFailure = (e: unknown): ValidationResult => ({
+    issues: [{ message: e instanceof Error ? e.message : String(e) }],
+  });
+
+  if (isStandardSchema(validator)) {
+    let result: ReturnType<StandardSchemaValidator['~standard']['validate']>;
+    try {
+      result = validator['~standard'].validate(record);
+    } catch (e) {
+      return toFailure(e);
+    }
+    if (isPromiseLike(result)) {
+      throw new Error('Asynchronous validators are not supported, records are set synchronously');
+    }
+    return result.issues ? { issues: [...result.issues] } : { value: result.value };
+  }
+
+  let result: ReturnType<typeof validator>;
+  try {
+    result = validator(record);
+  } catch (e) {
+    return toFailure(e);
+  }
+  if (result === undefined || result === true) return { value: record };
+  if (result === false) return { issues: [{ message: 'Validation failed' }] };
+  if (typeof result === 'string') return { issues: [{ message: result }] };
+  return result.length > 0 ? { issues: result } : { value: record };
+};
+
+/**
+ * Validate the records of a record set, keeping the issues of invalid records
+ * which are kept or dropped rather than rejected.
+ *
+ * @param validator - The validator, validation is disabled when undefined.
+ * @param mode - What happens to invalid records.
+ * @param reactivity - The reactivity system the record set is built on.
+ */
+export const createRecordValidation = (
+  validator: RecordValidator | undefined,
+  mode: ValidationMode = 'throw',
+  { reactive }: ReactivityAdapter,
+) => {
+  /** Issues of the invalid records, by id */
+  const errors = reactive<ByID<ValidationIssue[]>>({});
+
+  /**
+   * Validate a record about to be written.
+   * @param id - The id of the record.
+   * @param record - The record to validate.
+   * @param revived - Whether the record is revived from storage, in which case it is
+   * dropped rather than thrown on.
+   * @returns The record to write, or null if it must not be written.
+   * @throws {RecordValidationError} If the record is invalid and the mode is `throw`.
+   */
+  const check = <R>(id: string, record: R, revived = false): R | null => {
+    if (!validator) return record;
+    const result = runValidator(validator, record);
+    if ('value' in result) {
+      delete errors[id];
+      return result.value as R;
+    }
+
+    if (mode === 'throw' && !revived) throw new RecordValidationError(id, result.issues);
+    errors[id] = result.issues;
+    if (mode === 'report') return record;
+    if (revived) console.error(new RecordValidationError(id, result.issues));
+    return null;
+  };
+
+  /** Forget the issues of a record, e.g. once it is unset */
+  const clear = (id: string) => {
+    delete errors[id];
+  };
+
+  return {
+    check,
+    clear,
+    errors,
+  };
+};